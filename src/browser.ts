@@ -0,0 +1,331 @@
+// Entry point for browsers, workers and other runtimes without Node
+// built-ins. Sockets use the native WebSocket unless a transport is given.
+import { createClient } from "./client/client";
+import { createMultiClient } from "./client/multiClient";
+import { createCommandRouter, parseArguments } from "./client/commands";
+import { createPollTracker, getPollWinners } from "./client/polls";
+import { createModerationLog } from "./client/moderationLog";
+import {
+  createWebSocket,
+  chatroomChannel,
+  channelEventsChannel,
+  subscribeChannel,
+  unsubscribeChannel,
+  isAuthenticatedChannel,
+} from "./core/websocket";
+import { parseMessage } from "./core/messageHandling";
+import { createNativeTransport } from "./core/transport";
+import { createFetchTransport } from "./core/api";
+import {
+  createFullJitterPolicy,
+  createDecorrelatedJitterPolicy,
+} from "./core/reconnect";
+import { createMessageStore } from "./core/messageStore";
+import { validateEvent } from "./core/schemas";
+import {
+  registerEventParser,
+  unregisterEventParser,
+  type EventParserDefinition,
+} from "./core/eventRegistry";
+import * as schema from "./utils/schema";
+import {
+  METRICS,
+  createPrometheusRegistry,
+  createOpenTelemetrySink,
+} from "./core/metrics";
+import {
+  tokenize,
+  renderPlainText,
+  renderHtml,
+  renderMarkdown,
+} from "./utils/tokens";
+import {
+  getBadge,
+  hasBadge,
+  isBroadcaster,
+  isModerator,
+  isVip,
+  isOg,
+  isFounder,
+  isSubscriber,
+  isVerified,
+  subscriberMonths,
+  giftedSubscriptions,
+  type BadgeHolder,
+} from "./utils/badges";
+import {
+  createChannelResolver,
+  createStaticChannelResolver,
+} from "./core/channels";
+import {
+  ConnectionState,
+  ErrorType,
+  type KickClient,
+  type ClientOptions,
+  type WebSocketConfig,
+  type Logger,
+  type ConnectionOptions,
+  type KickError,
+  type EventHandler,
+  type ChannelInfo,
+  type KickClientEvents,
+  type KickClientEventListener,
+  type MultiClientOptions,
+  type ResolvedChannel,
+  type ChannelResolver,
+  type ChannelResolverOptions,
+  type ChannelAuthorization,
+  type ChannelAuthorizer,
+  type FrameSource,
+  type FrameRecorder,
+  type KickMultiClient,
+  type KickMultiClientEvents,
+  type KickMultiClientEventListener,
+  type ValidationMode,
+} from "./types/client";
+
+// Export main functions
+export {
+  createClient,
+  createMultiClient,
+  createCommandRouter,
+  createPollTracker,
+  createModerationLog,
+  ConnectionState,
+  ErrorType,
+};
+
+// Export utility functions
+export {
+  createWebSocket,
+  createNativeTransport,
+  createFetchTransport,
+  createMessageStore,
+  createFullJitterPolicy,
+  createDecorrelatedJitterPolicy,
+  chatroomChannel,
+  channelEventsChannel,
+  subscribeChannel,
+  unsubscribeChannel,
+  isAuthenticatedChannel,
+  parseMessage,
+  parseArguments,
+  getPollWinners,
+  validateEvent,
+  registerEventParser,
+  unregisterEventParser,
+  schema,
+  METRICS,
+  createPrometheusRegistry,
+  createOpenTelemetrySink,
+  createChannelResolver,
+  createStaticChannelResolver,
+  tokenize,
+  renderPlainText,
+  renderHtml,
+  renderMarkdown,
+  getBadge,
+  hasBadge,
+  isBroadcaster,
+  isModerator,
+  isVip,
+  isOg,
+  isFounder,
+  isSubscriber,
+  isVerified,
+  subscriberMonths,
+  giftedSubscriptions,
+};
+
+// Export all types for parent application use
+export type {
+  KickClient,
+  ClientOptions,
+  WebSocketConfig,
+  Logger,
+  ConnectionOptions,
+  KickError,
+  EventHandler,
+  ChannelInfo,
+  KickClientEvents,
+  KickClientEventListener,
+  MultiClientOptions,
+  ResolvedChannel,
+  ChannelResolver,
+  ChannelResolverOptions,
+  ChannelAuthorization,
+  ChannelAuthorizer,
+  FrameSource,
+  FrameRecorder,
+  KickMultiClient,
+  KickMultiClientEvents,
+  KickMultiClientEventListener,
+  ValidationMode,
+  EventParserDefinition,
+  BadgeHolder,
+};
+
+// Re-export event types from events module
+export type {
+  MessageData,
+  MessageSender,
+  ChatMessage,
+  Subscription,
+  GiftedSubscriptionsEvent,
+  StreamHostEvent,
+  UserBannedEvent,
+  UserUnbannedEvent,
+  PinnedMessageCreatedEvent,
+  ChatroomUpdatedEvent,
+  Poll,
+  PollOption,
+  PollUpdateEvent,
+  PollDeleteEvent,
+  MessageDeletedEvent,
+  MessageEvent,
+  StreamStartedEvent,
+  StreamEndedEvent,
+  LivestreamUpdatedEvent,
+  FollowersUpdatedEvent,
+  UnknownEvent,
+  PusherConnectionEstablishedEvent,
+  PusherErrorEvent,
+  PusherSubscriptionErrorEvent,
+  KickEventMap,
+  PusherEventMap,
+  ParsedEventMap,
+  ParsedMessage,
+} from "./types/events";
+
+// Re-export message token types
+export type {
+  MessageToken,
+  TextToken,
+  EmoteToken,
+  MentionToken,
+  UrlToken,
+  EmojiToken,
+  HtmlRenderOptions,
+  MarkdownRenderOptions,
+} from "./types/tokens";
+
+// Re-export command router types
+export type {
+  CommandPermission,
+  CommandCooldown,
+  CommandContext,
+  CommandDefinition,
+  CommandDenial,
+  CommandRouterOptions,
+  CommandRouter,
+} from "./types/commands";
+
+// Re-export middleware types
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareNext,
+} from "./types/middleware";
+
+// Re-export event stream types
+export type {
+  OverflowPolicy,
+  EventStreamOptions,
+  StreamedEvent,
+} from "./types/streams";
+
+// Re-export message store types
+export type {
+  MessageStore,
+  MessageStoreOptions,
+  StoredMessage,
+  ChatMessageDeletedEvent,
+} from "./types/store";
+
+// Re-export poll tracker types
+export type {
+  PollStartedEvent,
+  PollVotesChangedEvent,
+  PollEndedEvent,
+  PollTrackerEvents,
+  PollTracker,
+} from "./types/polls";
+
+// Re-export moderation log types
+export type {
+  ModerationUser,
+  BanEntry,
+  TimeoutEntry,
+  UnbanEntry,
+  MessageDeletionEntry,
+  ModerationEntry,
+  ModerationEntryType,
+  ModerationLogOptions,
+  ModerationLog,
+  ModerationActionOptions,
+  TimeoutOptions,
+} from "./types/moderation";
+
+// Re-export chatroom state types
+export type {
+  ChatroomState,
+  ChatroomStateDiff,
+  ChatroomStateChangedEvent,
+} from "./types/chatroom";
+
+// Re-export transport types
+export type {
+  TransportSocket,
+  TransportSocketEvents,
+  TransportOptions,
+  WebSocketFactory,
+} from "./types/transport";
+
+// Re-export reconnection types
+export type {
+  ReconnectContext,
+  ReconnectPolicy,
+  ReconnectPolicyOptions,
+  ReconnectEvent,
+} from "./types/reconnect";
+
+// Re-export HTTP API types
+export type {
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  HttpOptions,
+  AuthProvider,
+  SendMessageOptions,
+  SentMessage,
+} from "./types/http";
+
+// Re-export schema types
+export type { Schema } from "./utils/schema";
+
+// Re-export metrics types
+export type {
+  MetricLabels,
+  MetricsSink,
+  PrometheusRegistry,
+  PrometheusRegistryOptions,
+  OpenTelemetryMeter,
+  OpenTelemetryObservableCallback,
+} from "./types/metrics";
+
+// Re-export badge types
+export type {
+  Badge,
+  BadgeType,
+  BroadcasterBadge,
+  ModeratorBadge,
+  VipBadge,
+  OgBadge,
+  FounderBadge,
+  SubscriberMonthsBadge,
+  SubGifterBadge,
+  VerifiedBadge,
+} from "./types/badges";
+
+// Re-export livestream types used by channel feed events
+export type { Livestream } from "./types/video";
@@ -1,89 +1,95 @@
-import WebSocket from "ws";
-import EventEmitter from "events";
-import { createWebSocket } from "../core/websocket";
-import { parseMessage } from "../core/messageHandling";
+import { chatroomChannel, channelEventsChannel } from "../core/websocket";
+import { defaultChannelResolver } from "../core/channels";
+import {
+  DEFAULT_CONNECTION_OPTIONS,
+  createPusherConnection,
+} from "../core/connection";
+import { createEmitter } from "../core/emitter";
+import { createListenerRegistry } from "../core/listeners";
+import { createClientMetrics } from "../core/metrics";
+import { createMessageStore, trackMessage } from "../core/messageStore";
+import {
+  createChatroomState,
+  diffChatroomState,
+  reduceChatroomState,
+} from "../core/chatroomState";
+import { resolveLogger } from "../utils/logger";
+import { createKickError } from "../utils/errors";
+import {
+  createMiddlewarePipeline,
+  plainEmoteMiddleware,
+} from "../core/middleware";
+import { createEventBuffer } from "../core/streams";
+import { createApiClient } from "../core/api";
+import { createSendQueue } from "../core/sendQueue";
+import { createModerationActions } from "../core/moderationActions";
 import {
   ConnectionState,
   ErrorType,
   type KickClient,
   type ClientOptions,
-  type Logger,
-  type ConnectionOptions,
   type KickError,
+  type ChannelInfo,
+  type KickClientEvents,
+  type ResolvedChannel,
 } from "../types/client";
-import type { MessageData } from "../types/events";
-
-// Default no-op logger for production
-const createDefaultLogger = (): Logger => ({
-  debug: () => {},
-  info: () => {},
-  warn: () => {},
-  error: () => {},
-});
-
-// Console logger for debugging
-const createConsoleLogger = (): Logger => ({
-  debug: (message: string, ...args: any[]) => console.debug(`[KickJS DEBUG] ${message}`, ...args),
-  info: (message: string, ...args: any[]) => console.info(`[KickJS INFO] ${message}`, ...args),
-  warn: (message: string, ...args: any[]) => console.warn(`[KickJS WARN] ${message}`, ...args),
-  error: (message: string, error?: any) => console.error(`[KickJS ERROR] ${message}`, error),
-});
-
-// Resolve logger from options
-const resolveLogger = (loggerOption?: Logger | boolean): Logger => {
-  if (loggerOption === true) {
-    return createConsoleLogger();
-  } else if (loggerOption === false || loggerOption === undefined) {
-    return createDefaultLogger();
-  } else {
-    return loggerOption;
-  }
+import type { KickEventMap, MessageData, ParsedMessage } from "../types/events";
+import type { MiddlewareContext } from "../types/middleware";
+import type { EventStreamOptions, StreamedEvent } from "../types/streams";
+import type { ChatroomState } from "../types/chatroom";
+import type { SendMessageOptions, SentMessage } from "../types/http";
+
+// Listener arguments for each client event
+type ClientEmitterEvents = {
+  [K in keyof KickClientEvents]: [data: KickClientEvents[K]];
 };
 
 export const createClient = (
   channelName: string,
   options: ClientOptions = {},
 ): KickClient => {
-  const emitter = new EventEmitter();
-  let socket: WebSocket | null = null;
-  let channelInfo: { id: number; name: string } | null = null;
-  
-  // Connection and reconnection state
+  const emitter = createEmitter<ClientEmitterEvents>();
+  let channelInfo: ChannelInfo | null = null;
+  let resolvedChannel: ResolvedChannel | null = null;
+  let subscribedChannels: string[] = [];
+  let chatroomState: ChatroomState | null = null;
+  // Bumped by disconnect() so a connect() still resolving the channel stops
+  let connectGeneration = 0;
+
+  // Open event streams, fed after listeners and ended on disconnect
+  const streams = new Set<{
+    push: (context: MiddlewareContext) => void;
+    end: () => void;
+  }>();
+
+  // Connection state
   let connectionState: ConnectionState = ConnectionState.DISCONNECTED;
-  let reconnectAttempts = 0;
-  let reconnectTimer: NodeJS.Timeout | null = null;
-  let heartbeatTimer: NodeJS.Timeout | null = null;
-  let isDisconnected = false;
 
   // Listener tracking for proper cleanup
-  const listeners = new Map<string, Set<Function>>();
-  const onceListeners = new Map<string, Set<Function>>();
-
-  // Default options
-  const defaultConnectionOptions: ConnectionOptions = {
-    autoReconnect: true,
-    maxReconnectAttempts: 10,
-    reconnectInterval: 1000,
-    maxReconnectInterval: 30000,
-    heartbeatInterval: 30000,
-  };
+  const { addListener, removeListener, removeAllListeners } =
+    createListenerRegistry(emitter);
 
   const logger = resolveLogger(options.logger);
 
-  const mergedOptions = { 
+  const mergedOptions = {
     ...options,
     logger,
-    connection: { ...defaultConnectionOptions, ...options.connection }
+    connection: { ...DEFAULT_CONNECTION_OPTIONS, ...options.connection }
   };
 
-  const createError = (type: ErrorType, message: string, originalError?: Error, code?: string | number): KickError => ({
-    type,
-    message,
-    originalError,
-    code,
-    context: { channelName, connectionState }
+  const metrics = createClientMetrics(mergedOptions.metrics, {
+    channel: channelName,
   });
 
+  const createError = (type: ErrorType, message: string, originalError?: Error, code?: string | number) =>
+    createKickError({
+      type,
+      message,
+      originalError,
+      code,
+      context: { channelName, connectionState }
+    });
+
   const handleError = (error: KickError) => {
     logger.error(`KickClient Error ${error.type}: ${error.message}`, error.originalError);
     if (mergedOptions.onError) {
@@ -93,6 +99,7 @@ export const createClient = (
 
   const setConnectionState = (newState: ConnectionState) => {
     if (connectionState !== newState) {
+      metrics.stateTransition(connectionState, newState);
       connectionState = newState;
       logger.info(`Connection state changed to: ${newState}`);
       if (mergedOptions.onConnectionStateChange) {
@@ -101,308 +108,380 @@ export const createClient = (
     }
   };
 
-  const addListener = (event: string, listener: Function, once = false) => {
-    const targetMap = once ? onceListeners : listeners;
-    if (!targetMap.has(event)) {
-      targetMap.set(event, new Set());
-    }
-    targetMap.get(event)!.add(listener);
-    
-    if (once) {
-      const wrappedListener = (...args: any[]) => {
-        removeListener(event, listener);
-        (listener as any)(...args);
-      };
-      emitter.once(event, wrappedListener);
-    } else {
-      emitter.on(event, listener as any);
-    }
+  const messageStore = mergedOptions.messageStore
+    ? createMessageStore(
+        mergedOptions.messageStore === true ? {} : mergedOptions.messageStore,
+      )
+    : null;
+
+  const pipeline = createMiddlewarePipeline({
+    logger,
+    emit: (context) => {
+      const deleted = messageStore && trackMessage(messageStore, context);
+      const previousState = chatroomState;
+      if (chatroomState) {
+        chatroomState = reduceChatroomState(chatroomState, context);
+      }
+
+      // Streams and derived events still go out when a listener throws
+      try {
+        // Only Kick events reach the pipeline, with data matching their type
+        emitter.emit(
+          context.type as keyof KickEventMap,
+          ...([context.data] as ClientEmitterEvents[keyof KickEventMap]),
+        );
+      } finally {
+        streams.forEach((stream) => stream.push(context));
+        if (deleted) {
+          emitter.emit("ChatMessageDeleted", deleted);
+        }
+        if (previousState && chatroomState && chatroomState !== previousState) {
+          const changes = diffChatroomState(previousState, chatroomState);
+          if (Object.keys(changes).length > 0) {
+            emitter.emit("ChatroomStateChanged", {
+              state: chatroomState,
+              changes,
+            });
+          }
+        }
+      }
+    },
+    onError: (error, context) => {
+      handleError(
+        createError(
+          ErrorType.MIDDLEWARE,
+          `Middleware failed for ${context.type}`,
+          error,
+        ),
+      );
+    },
+    onListenerError: (error, context) => {
+      handleError(
+        createError(
+          ErrorType.LISTENER,
+          `Listener for ${context.type} threw`,
+          error,
+        ),
+      );
+    },
+  });
+
+  if (mergedOptions.plainEmote) {
+    pipeline.use(plainEmoteMiddleware);
+  }
+
+  const handleEvent = (parsedMessage: ParsedMessage) => {
+    metrics.eventReceived(parsedMessage.type);
+    pipeline.push({
+      ...parsedMessage,
+      channel: channelInfo,
+      state: {},
+    });
   };
 
-  const removeListener = (event: string, listener: Function) => {
-    // Remove from tracking
-    listeners.get(event)?.delete(listener);
-    onceListeners.get(event)?.delete(listener);
-    
-    // Remove from EventEmitter
-    emitter.removeListener(event, listener as any);
+  const openStream = <T>(
+    options: EventStreamOptions | undefined,
+    select: (context: MiddlewareContext) => T | undefined,
+  ): AsyncIterableIterator<T> => {
+    const entry = {
+      push: (context: MiddlewareContext) => {
+        const value = select(context);
+        if (value !== undefined) {
+          buffer.push(value);
+        }
+      },
+      end: () => buffer.end(),
+    };
+    const buffer = createEventBuffer<T>(options, () => {
+      streams.delete(entry);
+    });
+    streams.add(entry);
+    return buffer;
   };
 
-  const removeAllListeners = (event?: string) => {
-    if (event) {
-      listeners.get(event)?.clear();
-      onceListeners.get(event)?.clear();
-      emitter.removeAllListeners(event);
-    } else {
-      listeners.clear();
-      onceListeners.clear();
-      emitter.removeAllListeners();
+  const events = <K extends keyof KickEventMap>(
+    event: K,
+    options?: EventStreamOptions,
+  ) =>
+    openStream(options, (context) =>
+      context.type === event ? (context.data as KickEventMap[K]) : undefined,
+    );
+
+  const stream = (options?: EventStreamOptions) =>
+    openStream(
+      options,
+      ({ type, data, channel }) => ({ type, data, channel }) as StreamedEvent,
+    );
+
+  const resolveChannel = async (): Promise<ResolvedChannel> => {
+    // Reuse what a previous connect() resolved
+    if (resolvedChannel) {
+      return resolvedChannel;
     }
-  };
 
-  const startHeartbeat = () => {
-    if (!mergedOptions.connection?.heartbeatInterval || heartbeatTimer) {
-      return;
+    if (mergedOptions.chatroomId !== undefined) {
+      return {
+        chatroomId: mergedOptions.chatroomId,
+        channelId: mergedOptions.channelId,
+      };
     }
 
-    heartbeatTimer = setInterval(() => {
-      if (socket && socket.readyState === WebSocket.OPEN) {
-        logger.debug("Sending heartbeat ping");
-        socket.ping();
-      }
-    }, mergedOptions.connection.heartbeatInterval);
+    const resolver = mergedOptions.resolver ?? defaultChannelResolver;
+    return resolver(channelName);
   };
 
-  const stopHeartbeat = () => {
-    if (heartbeatTimer) {
-      clearInterval(heartbeatTimer);
-      heartbeatTimer = null;
+  const api = createApiClient({
+    ...mergedOptions.http,
+    auth: mergedOptions.auth,
+    logger,
+    createError,
+  });
+
+  // Space sends by the slow mode interval while it is on
+  const sendQueue = createSendQueue(() =>
+    chatroomState?.slowMode ? chatroomState.messageInterval * 1000 : 0,
+  );
+
+  // Messages can be referred to by ID while they are in the message store
+  const findStoredMessage = (messageId: string): MessageData => {
+    const stored = messageStore?.get(messageId);
+    if (!stored) {
+      throw createError(
+        ErrorType.VALIDATION,
+        `Message ${messageId} is not in the message store`,
+      );
     }
+    return stored.message;
   };
 
-  const scheduleReconnect = () => {
-    if (!mergedOptions.connection?.autoReconnect || 
-        reconnectAttempts >= (mergedOptions.connection.maxReconnectAttempts || 10) ||
-        isDisconnected) {
-      logger.warn("Reconnection disabled or max attempts reached");
-      return;
-    }
+  const resolveMessage = (message: MessageData | string): MessageData =>
+    typeof message === "string" ? findStoredMessage(message) : message;
+
+  const replyMetadata = (replyTo: MessageData | string) => {
+    const original = resolveMessage(replyTo);
+    return {
+      original_message: { id: original.id, content: original.content },
+      original_sender: {
+        id: String(original.sender.id),
+        username: original.sender.username,
+      },
+    };
+  };
 
-    const baseInterval = mergedOptions.connection.reconnectInterval || 1000;
-    const maxInterval = mergedOptions.connection.maxReconnectInterval || 30000;
-    const exponentialDelay = Math.min(baseInterval * Math.pow(2, reconnectAttempts), maxInterval);
-    
-    logger.info(`Scheduling reconnection attempt ${reconnectAttempts + 1} in ${exponentialDelay}ms`);
-    
-    reconnectTimer = setTimeout(async () => {
-      reconnectTimer = null;
-      try {
-        await connect();
-      } catch (error) {
-        logger.error("Reconnection attempt failed", error);
-        reconnectAttempts++;
-        scheduleReconnect();
-      }
-    }, exponentialDelay);
+  const send = async (
+    content: string,
+    { replyTo }: SendMessageOptions = {},
+  ): Promise<SentMessage | null> => {
+    const body = replyTo
+      ? { content, type: "reply", metadata: replyMetadata(replyTo) }
+      : { content, type: "message" };
+    const { chatroomId } = resolvedChannel ?? (await resolveChannel());
+
+    const response = await sendQueue.enqueue(() =>
+      api.request<{ data?: SentMessage }>(
+        "POST",
+        `/api/v2/messages/send/${chatroomId}`,
+        body,
+      ),
+    );
+    return response?.data ?? null;
   };
 
+  const moderation = createModerationActions({
+    api,
+    emitter,
+    channelName,
+    resolveChatroomId: async () =>
+      (resolvedChannel ?? (await resolveChannel())).chatroomId,
+    resolveMessage,
+    isConnected: () => connection.isOpen(),
+    createError,
+  });
+
+  const connection = createPusherConnection({
+    logger,
+    websocket: mergedOptions.websocket,
+    connection: mergedOptions.connection,
+    createError,
+    onEvent: handleEvent,
+    onOpen: () => {
+      logger.info(`Connected to channel: ${channelName}`);
+      if (channelInfo) {
+        emitter.emit("ready", channelInfo);
+      }
+    },
+    onClose: () => {
+      logger.warn(`Connection closed for channel: ${channelName}`);
+      emitter.emit("disconnect");
+    },
+    onError: handleError,
+    onSocketError: (error) => {
+      handleError(error);
+      emitter.emit("error", error);
+    },
+    onStateChange: setConnectionState,
+    onFrame: (frame) => {
+      mergedOptions.recorder?.record(frame);
+      emitter.emit("raw", frame);
+    },
+    onParseError: metrics.parseFailure,
+    onReconnectAttempt: (attempt, delay) => {
+      metrics.reconnectAttempt();
+      emitter.emit("reconnecting", { attempt, delay });
+    },
+    onReconnected: (attempt, delay) => {
+      emitter.emit("reconnected", { attempt, delay });
+    },
+    onReconnectFailed: (attempt, delay) => {
+      emitter.emit("reconnectFailed", { attempt, delay });
+    },
+    onHeartbeat: metrics.heartbeat,
+    source: mergedOptions.source,
+    validation: mergedOptions.validation,
+  });
+
   const connect = async (): Promise<void> => {
-    return new Promise(async (resolve, reject) => {
-      try {
-        if (socket && socket.readyState === WebSocket.OPEN) {
-          logger.debug("Already connected to WebSocket");
-          resolve();
-          return;
-        }
+    if (connection.isOpen()) {
+      logger.debug("Already connected to WebSocket");
+      return;
+    }
 
-        logger.info(`Connecting to channel: ${channelName}`);
-        setConnectionState(ConnectionState.CONNECTING);
+    const generation = connectGeneration;
+    try {
+      logger.info(`Connecting to channel: ${channelName}`);
+      setConnectionState(ConnectionState.CONNECTING);
+      metrics.start();
 
-        // Get the real chatroom ID from Kick API
-        const channelData = await fetch(`https://kick.com/api/v1/channels/${channelName}`);
-        if (!channelData.ok) {
-          throw new Error(`Failed to get channel data for ${channelName}: ${channelData.statusText}`);
-        }
-        
-        const channelJson = await channelData.json();
-        const chatroomId = channelJson.chatroom?.id;
-        
-        if (!chatroomId) {
-          throw new Error(`No chatroom ID found for channel ${channelName}`);
-        }
-        
-        logger.info(`Found chatroom ID ${chatroomId} for channel ${channelName}`);
-        channelInfo = { id: chatroomId, name: channelName };
-
-        socket = createWebSocket({ 
-          chatroomId,
-          config: mergedOptions.websocket 
-        });
-
-        socket.on("open", () => {
-          if (isDisconnected) {
-            logger.debug("Connection opened but client is disconnected, ignoring");
-            return;
-          }
-          
-          logger.info(`Connected to channel: ${channelName}`);
-          setConnectionState(ConnectionState.CONNECTED);
-          reconnectAttempts = 0;
-          startHeartbeat();
-          emitter.emit("ready", channelInfo);
-          resolve();
-        });
-
-        socket.on("message", (data: WebSocket.Data) => {
-          if (isDisconnected) return;
-          
-          try {
-            const parsedMessage = parseMessage(data.toString(), logger);
-            if (parsedMessage) {
-              switch (parsedMessage.type) {
-                case "ChatMessage":
-                  if (mergedOptions.plainEmote) {
-                    const messageData = parsedMessage.data as MessageData;
-                    messageData.content = messageData.content.replace(
-                      /\[emote:(\d+):(\w+)\]/g,
-                      (_, __, emoteName) => emoteName,
-                    );
-                  }
-                  emitter.emit(parsedMessage.type, parsedMessage.data);
-                  break;
-                  
-                case "PusherConnectionEstablished":
-                  logger.debug("Pusher WebSocket connection established");
-                  break;
-                  
-                case "PusherSubscriptionSucceeded":
-                  logger.debug("Successfully subscribed to chat channel");
-                  break;
-                  
-                case "PusherPong":
-                  logger.debug("Received Pusher pong");
-                  break;
-                  
-                case "PusherPing":
-                  logger.debug("Received Pusher ping");
-                  break;
-                  
-                case "PusherError":
-                  logger.error("Pusher error:", parsedMessage.data);
-                  break;
-                  
-                default:
-                  // Emit all non-Pusher events for the application to handle
-                  emitter.emit(parsedMessage.type, parsedMessage.data);
-                  break;
-              }
-            }
-          } catch (error) {
-            const kickError = createError(
-              ErrorType.WEBSOCKET,
-              "Failed to parse WebSocket message",
-              error instanceof Error ? error : new Error(String(error))
-            );
-            handleError(kickError);
-          }
-        });
-
-        socket.on("close", () => {
-          stopHeartbeat();
-          if (!isDisconnected) {
-            logger.warn(`Connection closed for channel: ${channelName}`);
-            setConnectionState(ConnectionState.DISCONNECTED);
-            emitter.emit("disconnect");
-            scheduleReconnect();
-          }
-        });
-
-        socket.on("error", (error) => {
-          stopHeartbeat();
-          setConnectionState(ConnectionState.ERROR);
-          const kickError = createError(
-            ErrorType.WEBSOCKET,
-            "WebSocket connection error",
-            error instanceof Error ? error : new Error(String(error))
-          );
-          handleError(kickError);
-          emitter.emit("error", kickError);
-          reject(kickError);
-        });
-
-        socket.on("pong", () => {
-          logger.debug("Received heartbeat pong");
-        });
-
-      } catch (error) {
-        setConnectionState(ConnectionState.ERROR);
-        const kickError = createError(
+      // Get the real chatroom ID for the channel
+      const channel = await resolveChannel();
+      if (generation !== connectGeneration) {
+        throw createError(
           ErrorType.CONNECTION,
-          "Failed to create WebSocket connection",
-          error instanceof Error ? error : new Error(String(error))
+          "Client disconnected while connecting",
         );
-        handleError(kickError);
-        reject(kickError);
       }
-    });
+      resolvedChannel = channel;
+      const { chatroomId, channelId } = resolvedChannel;
+
+      logger.info(`Found chatroom ID ${chatroomId} for channel ${channelName}`);
+      channelInfo = { id: chatroomId, name: channelName, channelId };
+      if (chatroomState?.chatroomId !== chatroomId) {
+        chatroomState = createChatroomState(chatroomId, resolvedChannel.chatroom);
+      }
+
+      subscribedChannels = [chatroomChannel(chatroomId)];
+      if (mergedOptions.channelEvents) {
+        if (channelId !== undefined) {
+          subscribedChannels.push(channelEventsChannel(channelId));
+        } else {
+          logger.warn(`No channel ID known for ${channelName}, skipping channel events`);
+        }
+      }
+      subscribedChannels.forEach(connection.subscribe);
+    } catch (error) {
+      if (generation !== connectGeneration) {
+        throw error;
+      }
+      setConnectionState(ConnectionState.ERROR);
+      const kickError = createError(
+        ErrorType.CONNECTION,
+        "Failed to create WebSocket connection",
+        error instanceof Error ? error : new Error(String(error))
+      );
+      handleError(kickError);
+      throw kickError;
+    }
+
+    return connection.open();
   };
 
   const disconnect = () => {
     logger.info("Disconnecting client...");
-    isDisconnected = true;
+    connectGeneration++;
+    connection.close();
+    metrics.stop();
     setConnectionState(ConnectionState.DISCONNECTED);
-    
-    // Stop reconnection attempts
-    if (reconnectTimer) {
-      clearTimeout(reconnectTimer);
-      reconnectTimer = null;
-    }
-    
-    // Stop heartbeat
-    stopHeartbeat();
-    
-    // Close WebSocket
-    if (socket) {
-      socket.removeAllListeners();
-      if (socket.readyState === WebSocket.OPEN) {
-        socket.close();
-      }
-      socket = null;
-    }
-    
-    // Clear all event emitter listeners
+
+    connection.getSubscriptions().forEach(connection.unsubscribe);
+    subscribedChannels = [];
+    sendQueue.clear(
+      createError(ErrorType.CONNECTION, "Client disconnected before the message was sent"),
+    );
+
+    // End open streams and clear all event emitter listeners
+    streams.forEach((stream) => stream.end());
     removeAllListeners();
-    
+
     // Reset client state
     channelInfo = null;
-    reconnectAttempts = 0;
-    
+    resolvedChannel = null;
+    messageStore?.clear();
+    chatroomState = null;
+
     logger.info("Client disconnected and cleaned up");
   };
 
+  const reconnect = async (): Promise<void> => {
+    // Nothing to reconnect until connect() has resolved the channel
+    if (!resolvedChannel) {
+      return connect();
+    }
+    return connection.reconnect();
+  };
+
   const isConnected = (): boolean => {
-    return socket !== null && socket.readyState === WebSocket.OPEN;
+    return connection.isOpen();
   };
 
   const getConnectionState = (): ConnectionState => {
     return connectionState;
   };
 
-  const getChannel = (): { id: number; name: string } | null => {
+  const getChannel = (): ChannelInfo | null => {
     return channelInfo;
   };
 
   // Public API
   const client: KickClient = {
-    on: (event: string, listener: (...args: any[]) => void) => {
+    on: (event, listener) => {
       addListener(event, listener, false);
     },
-    
-    off: (event: string, listener: (...args: any[]) => void) => {
+
+    off: (event, listener) => {
       removeListener(event, listener);
     },
-    
-    removeListener: (event: string, listener: (...args: any[]) => void) => {
+
+    removeListener: (event, listener) => {
       removeListener(event, listener);
     },
-    
-    once: (event: string, listener: (...args: any[]) => void) => {
+
+    once: (event, listener) => {
       addListener(event, listener, true);
     },
-    
+
     removeAllListeners,
     connect,
-    
+
     // Backward compatibility method
     start: async () => {
       logger.warn("start() is deprecated, use connect() instead");
       return connect();
     },
-    
+
     disconnect,
+    reconnect,
     isConnected,
     getConnectionState,
     getChannel,
+    subscribe: connection.subscribe,
+    unsubscribe: connection.unsubscribe,
+    use: pipeline.use,
+    getMessageStore: () => messageStore,
+    getChatroomState: () => chatroomState,
+    events,
+    stream,
+    send,
+    ...moderation,
   };
 
   // Backward compatibility: auto-connect if readOnly is true
@@ -414,4 +493,4 @@ export const createClient = (
   }
 
   return client;
-};
\ No newline at end of file
+};
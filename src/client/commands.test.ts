@@ -0,0 +1,269 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createCommandRouter, parseArguments } from "./commands";
+import type { Badge } from "../types/badges";
+import type { KickClient, KickError } from "../types/client";
+import type { MessageData } from "../types/events";
+
+const createFakeClient = () => {
+  const listeners = new Set<(message: MessageData) => void>();
+  const client = {
+    on: (_event: string, listener: (message: MessageData) => void) => {
+      listeners.add(listener);
+    },
+    off: (_event: string, listener: (message: MessageData) => void) => {
+      listeners.delete(listener);
+    },
+    getChannel: () => null,
+  } as unknown as KickClient;
+
+  let nextId = 1;
+  const chat = (content: string, userId = 1, badges: Badge[] = []) => {
+    const message: MessageData = {
+      id: `message-${nextId++}`,
+      chatroom_id: 668,
+      content,
+      type: "message",
+      created_at: new Date().toISOString(),
+      sender: {
+        id: userId,
+        username: `user${userId}`,
+        slug: `user${userId}`,
+        identity: { color: "#ffffff", badges },
+      },
+      tokens: [],
+    };
+    listeners.forEach((listener) => listener(message));
+  };
+
+  return { client, chat, listenerCount: () => listeners.size };
+};
+
+describe("parseArguments", () => {
+  it("splits on any whitespace", () => {
+    expect(parseArguments("  a\tb \n c  ")).toEqual(["a", "b", "c"]);
+  });
+
+  it("keeps quoted strings together", () => {
+    expect(parseArguments(`"hello there" 'it''s' 2`)).toEqual([
+      "hello there",
+      "its",
+      "2",
+    ]);
+  });
+
+  it("joins quotes with the text around them", () => {
+    expect(parseArguments(`a"b c"d`)).toEqual(["ab cd"]);
+  });
+
+  it("keeps empty quoted arguments", () => {
+    expect(parseArguments(`"" x`)).toEqual(["", "x"]);
+  });
+
+  it("unescapes backslashes", () => {
+    expect(parseArguments(String.raw`a\ b \"c\" \\`)).toEqual([
+      "a b",
+      '"c"',
+      "\\",
+    ]);
+  });
+
+  it("takes an unterminated quote to the end", () => {
+    expect(parseArguments(`"a b`)).toEqual(["a b"]);
+  });
+
+  it("returns nothing for blank input", () => {
+    expect(parseArguments("   ")).toEqual([]);
+  });
+});
+
+describe("createCommandRouter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("routes commands and aliases with parsed arguments", () => {
+    const { client, chat } = createFakeClient();
+    const handler = vi.fn();
+    createCommandRouter(client).command({
+      name: "so",
+      aliases: ["shoutout"],
+      handler,
+    });
+
+    chat(`!SHOUTOUT xqc "great stream"`);
+    chat("so xqc");
+    chat("!sox");
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(handler.mock.calls[0]![0]).toMatchObject({
+      command: "so",
+      invokedAs: "SHOUTOUT",
+      args: ["xqc", "great stream"],
+      rawArgs: `xqc "great stream"`,
+    });
+  });
+
+  it("denies senders without a permitted badge", () => {
+    const { client, chat } = createFakeClient();
+    const handler = vi.fn();
+    const onDenied = vi.fn();
+    createCommandRouter(client, { onDenied }).command({
+      name: "ban",
+      permission: ["moderator", "vip"],
+      handler,
+    });
+
+    chat("!ban troll");
+    chat("!ban troll", 2, [{ type: "vip", text: "VIP" }]);
+    chat("!ban troll", 3, [{ type: "broadcaster", text: "Broadcaster" }]);
+
+    expect(onDenied).toHaveBeenCalledOnce();
+    expect(onDenied.mock.calls[0]![0]).toEqual({ reason: "permission" });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("applies per-user cooldowns", () => {
+    const { client, chat } = createFakeClient();
+    const handler = vi.fn();
+    const onDenied = vi.fn();
+    createCommandRouter(client, { onDenied }).command({
+      name: "quote",
+      cooldown: { user: 10_000 },
+      handler,
+    });
+
+    chat("!quote", 1);
+    vi.advanceTimersByTime(4_000);
+    chat("!quote", 1);
+    chat("!quote", 2);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(onDenied.mock.calls[0]![0]).toEqual({
+      reason: "cooldown",
+      scope: "user",
+      remaining: 6_000,
+    });
+
+    vi.advanceTimersByTime(6_000);
+    chat("!quote", 1);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it("applies global cooldowns to everyone", () => {
+    const { client, chat } = createFakeClient();
+    const handler = vi.fn();
+    const onDenied = vi.fn();
+    createCommandRouter(client, { onDenied }).command({
+      name: "so",
+      cooldown: { global: 30_000 },
+      handler,
+    });
+
+    chat("!so", 1);
+    chat("!so", 2);
+    expect(onDenied.mock.calls[0]![0]).toMatchObject({
+      reason: "cooldown",
+      scope: "global",
+    });
+
+    vi.advanceTimersByTime(30_000);
+    chat("!so", 2);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't start a cooldown for denied invocations", () => {
+    const { client, chat } = createFakeClient();
+    const handler = vi.fn();
+    createCommandRouter(client).command({
+      name: "mod",
+      permission: "moderator",
+      cooldown: { global: 30_000 },
+      handler,
+    });
+
+    chat("!mod", 1);
+    chat("!mod", 2, [{ type: "moderator", text: "Moderator" }]);
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it("reports handlers that throw or reject", async () => {
+    const { client, chat } = createFakeClient();
+    const onError = vi.fn();
+    createCommandRouter(client, { onError })
+      .command({
+        name: "throws",
+        handler: () => {
+          throw new Error("sync");
+        },
+      })
+      .command({
+        name: "rejects",
+        handler: () => Promise.reject(new Error("async")),
+      });
+
+    chat("!throws");
+    chat("!rejects");
+    await vi.runAllTimersAsync();
+
+    expect(
+      onError.mock.calls.map(([error]) => (error as KickError).originalError),
+    ).toEqual([new Error("sync"), new Error("async")]);
+  });
+
+  it("stops and resumes routing with detach and attach", () => {
+    const { client, chat, listenerCount } = createFakeClient();
+    const handler = vi.fn();
+    const router = createCommandRouter(client).command({
+      name: "ping",
+      handler,
+    });
+
+    router.detach();
+    chat("!ping");
+    router.attach();
+    router.attach();
+    chat("!ping");
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(listenerCount()).toBe(1);
+  });
+
+  it("unregisters commands and their aliases", () => {
+    const { client, chat } = createFakeClient();
+    const handler = vi.fn();
+    const router = createCommandRouter(client).command({
+      name: "so",
+      aliases: ["shoutout"],
+      handler,
+    });
+
+    router.remove("so");
+    chat("!so");
+    chat("!shoutout");
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(router.getCommands()).toEqual([]);
+  });
+
+  it("clears a removed command's cooldowns", () => {
+    const { client, chat } = createFakeClient();
+    const handler = vi.fn();
+    const definition = {
+      name: "quote",
+      cooldown: { global: 30_000, user: 60_000 },
+      handler,
+    };
+    const router = createCommandRouter(client).command(definition);
+
+    chat("!quote", 1);
+    router.remove("quote");
+    router.command(definition);
+    chat("!quote", 1);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
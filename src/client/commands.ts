@@ -0,0 +1,257 @@
+import { ErrorType, type KickClient, type KickError } from "../types/client";
+import type { MessageData, MessageSender } from "../types/events";
+import type {
+  CommandContext,
+  CommandDefinition,
+  CommandDenial,
+  CommandPermission,
+  CommandRouter,
+  CommandRouterOptions,
+} from "../types/commands";
+import { hasBadge, isModerator, isSubscriber } from "../utils/badges";
+import { resolveLogger } from "../utils/logger";
+
+/**
+ * Split command arguments on whitespace, keeping quoted strings together
+ * @param input Text after the command name
+ * @returns Arguments with surrounding quotes and escapes removed
+ */
+export const parseArguments = (input: string): string[] => {
+  const args: string[] = [];
+  let current = "";
+  let quote: '"' | "'" | null = null;
+  let hasToken = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+
+    if (char === "\\" && i + 1 < input.length) {
+      current += input[++i];
+      hasToken = true;
+    } else if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        args.push(current);
+        current = "";
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (hasToken) {
+    args.push(current);
+  }
+  return args;
+};
+
+const satisfies = (sender: MessageSender, permission: CommandPermission) => {
+  if (typeof permission === "function") {
+    return permission(sender);
+  }
+
+  // Moderator and subscriber checks include the roles that imply them
+  switch (permission) {
+    case "moderator":
+      return isModerator(sender);
+    case "subscriber":
+      return isSubscriber(sender);
+    default:
+      return hasBadge(sender, permission);
+  }
+};
+
+/**
+ * Route prefixed chat messages to command handlers
+ * @param client Client whose ChatMessage events are routed
+ * @param options Prefix, matching and error handling options
+ * @returns Router to register commands on
+ */
+export const createCommandRouter = (
+  client: KickClient,
+  {
+    prefix = "!",
+    caseSensitive = false,
+    onError,
+    onDenied,
+    logger: loggerOption,
+  }: CommandRouterOptions = {},
+): CommandRouter => {
+  const logger = resolveLogger(loggerOption);
+  const commands = new Map<string, CommandDefinition>();
+  // Command names and aliases, normalized, mapped to canonical names
+  const lookup = new Map<string, string>();
+  // When each command's cooldowns end, globally and per user ID
+  const globalCooldowns = new Map<string, number>();
+  const userCooldowns = new Map<string, Map<number, number>>();
+
+  const normalize = (name: string) =>
+    caseSensitive ? name : name.toLowerCase();
+
+  // Expired cooldowns are forgotten when read, so the maps don't keep every user
+  const checkCooldown = (
+    definition: CommandDefinition,
+    userId: number,
+    now: number,
+  ): CommandDenial | null => {
+    const globalUntil = globalCooldowns.get(definition.name);
+    if (globalUntil !== undefined) {
+      if (globalUntil > now) {
+        return {
+          reason: "cooldown",
+          scope: "global",
+          remaining: globalUntil - now,
+        };
+      }
+      globalCooldowns.delete(definition.name);
+    }
+
+    const users = userCooldowns.get(definition.name);
+    const userUntil = users?.get(userId);
+    if (users && userUntil !== undefined) {
+      if (userUntil > now) {
+        return {
+          reason: "cooldown",
+          scope: "user",
+          remaining: userUntil - now,
+        };
+      }
+      users.delete(userId);
+    }
+
+    return null;
+  };
+
+  const startCooldown = (
+    definition: CommandDefinition,
+    userId: number,
+    now: number,
+  ) => {
+    if (definition.cooldown?.global) {
+      globalCooldowns.set(definition.name, now + definition.cooldown.global);
+    }
+    if (definition.cooldown?.user) {
+      let users = userCooldowns.get(definition.name);
+      if (!users) {
+        users = new Map();
+        userCooldowns.set(definition.name, users);
+      }
+      users.set(userId, now + definition.cooldown.user);
+    }
+  };
+
+  const handleMessage = (message: MessageData) => {
+    if (!message.content.startsWith(prefix)) {
+      return;
+    }
+
+    const body = message.content.slice(prefix.length);
+    const [invokedAs = ""] = body.split(/\s/, 1);
+    const name = lookup.get(normalize(invokedAs));
+    const definition = name ? commands.get(name) : undefined;
+    if (!definition) {
+      return;
+    }
+
+    const rawArgs = body.slice(invokedAs.length).trim();
+    const context: CommandContext = {
+      message,
+      command: definition.name,
+      invokedAs,
+      args: parseArguments(rawArgs),
+      rawArgs,
+      channel: client.getChannel(),
+      client,
+    };
+
+    const permissions =
+      definition.permission === undefined ? [] : [definition.permission].flat();
+    if (
+      permissions.length > 0 &&
+      !permissions.some((permission) => satisfies(message.sender, permission))
+    ) {
+      onDenied?.({ reason: "permission" }, context);
+      return;
+    }
+
+    const now = Date.now();
+    const denial = checkCooldown(definition, message.sender.id, now);
+    if (denial) {
+      onDenied?.(denial, context);
+      return;
+    }
+    startCooldown(definition, message.sender.id, now);
+
+    const reportError = (error: unknown) => {
+      const kickError: KickError = {
+        type: ErrorType.COMMAND,
+        message: `Command ${definition.name} failed`,
+        originalError:
+          error instanceof Error ? error : new Error(String(error)),
+        context: { command: definition.name, messageId: message.id },
+      };
+      logger.error(kickError.message, kickError.originalError);
+      onError?.(kickError, context);
+    };
+
+    try {
+      void Promise.resolve(definition.handler(context)).catch(reportError);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const detach = () => {
+    client.off("ChatMessage", handleMessage);
+  };
+
+  const attach = () => {
+    detach();
+    client.on("ChatMessage", handleMessage);
+  };
+
+  attach();
+
+  const remove = (name: string) => {
+    const definition = commands.get(name);
+    if (!definition) {
+      return;
+    }
+
+    commands.delete(name);
+    for (const alias of [definition.name, ...(definition.aliases ?? [])]) {
+      if (lookup.get(normalize(alias)) === name) {
+        lookup.delete(normalize(alias));
+      }
+    }
+    globalCooldowns.delete(name);
+    userCooldowns.delete(name);
+  };
+
+  const router: CommandRouter = {
+    command: (definition) => {
+      remove(definition.name);
+      commands.set(definition.name, definition);
+      for (const alias of [definition.name, ...(definition.aliases ?? [])]) {
+        lookup.set(normalize(alias), definition.name);
+      }
+      return router;
+    },
+    remove,
+    getCommands: () => [...commands.values()],
+    attach,
+    detach,
+  };
+
+  return router;
+};
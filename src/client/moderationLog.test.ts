@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createModerationLog } from "./moderationLog";
+import { createMessageStore } from "../core/messageStore";
+import type {
+  KickClient,
+  KickClientEventListener,
+  KickClientEvents,
+} from "../types/client";
+import type { MessageData } from "../types/events";
+
+const channel = { id: 668, name: "xqc", channelId: 1 };
+const user = (id: number, username: string) => ({
+  id,
+  username,
+  slug: username.toLowerCase(),
+});
+const mod = user(1, "SomeMod");
+const troll = user(2, "Troll");
+
+// Just enough of a client to deliver moderation events to the log
+const createFakeClient = () => {
+  const listeners = new Map<string, Set<(data: unknown) => void>>();
+  const messageStore = createMessageStore();
+  const client = {
+    on: <K extends keyof KickClientEvents>(
+      event: K,
+      listener: KickClientEventListener<K>,
+    ) => {
+      const set = listeners.get(event) ?? new Set();
+      set.add(listener as (data: unknown) => void);
+      listeners.set(event, set);
+    },
+    off: <K extends keyof KickClientEvents>(
+      event: K,
+      listener: KickClientEventListener<K>,
+    ) => {
+      listeners.get(event)?.delete(listener as (data: unknown) => void);
+    },
+    getChannel: () => channel,
+    getMessageStore: () => messageStore,
+  } as KickClient;
+  const emit = <K extends keyof KickClientEvents>(
+    event: K,
+    data: KickClientEvents[K],
+  ) => listeners.get(event)?.forEach((listener) => listener(data));
+  return { client, emit, messageStore };
+};
+
+describe("createModerationLog", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("records bans, timeouts and unbans", () => {
+    const { client, emit } = createFakeClient();
+    const log = createModerationLog(client);
+
+    emit("UserBanned", { id: "1", user: troll, banned_by: mod });
+    emit("UserBanned", {
+      id: "2",
+      user: troll,
+      banned_by: mod,
+      expires_at: "2024-01-01T00:10:00Z",
+    });
+    emit("UserUnbanned", { id: "3", user: troll, unbanned_by: mod });
+
+    expect(log.getEntries()).toEqual([
+      {
+        id: "1",
+        type: "ban",
+        createdAt: new Date("2024-01-01T00:00:00Z"),
+        channel,
+        moderator: mod,
+        target: troll,
+      },
+      {
+        id: "2",
+        type: "timeout",
+        createdAt: new Date("2024-01-01T00:00:00Z"),
+        channel,
+        moderator: mod,
+        target: troll,
+        duration: 600,
+        expiresAt: new Date("2024-01-01T00:10:00Z"),
+      },
+      {
+        id: "3",
+        type: "unban",
+        createdAt: new Date("2024-01-01T00:00:00Z"),
+        channel,
+        moderator: mod,
+        target: troll,
+      },
+    ]);
+    expect(log.getEntries("timeout").map(({ id }) => id)).toEqual(["2"]);
+  });
+
+  it("fills in deleted messages from the message store", () => {
+    const { client, emit, messageStore } = createFakeClient();
+    const log = createModerationLog(client);
+    messageStore.add({
+      id: "m1",
+      chatroom_id: 668,
+      content: "buy followers",
+      type: "message",
+      created_at: "2024-01-01T00:00:00Z",
+      sender: { ...troll, identity: { color: "#ffffff", badges: [] } },
+      tokens: [],
+    } as MessageData);
+
+    emit("MessageDeleted", { id: "4", message: { id: "m1" } });
+    emit("MessageDeleted", { id: "5", message: { id: "unknown" } });
+
+    expect(log.getEntries()).toMatchObject([
+      { type: "messageDeleted", target: troll, content: "buy followers" },
+      { type: "messageDeleted", target: null, content: null },
+    ]);
+  });
+
+  it("looks entries up by user id or case-insensitive username", () => {
+    const { client, emit } = createFakeClient();
+    const log = createModerationLog(client);
+    emit("UserBanned", { id: "1", user: troll, banned_by: mod });
+    emit("UserBanned", { id: "2", user: mod, banned_by: troll });
+
+    expect(log.getByUser("troll").map(({ id }) => id)).toEqual(["1"]);
+    expect(log.getByUser(1).map(({ id }) => id)).toEqual(["2"]);
+    expect(log.getByModerator("SOMEMOD").map(({ id }) => id)).toEqual(["1"]);
+  });
+
+  it("drops the oldest entries past maxEntries", () => {
+    const { client, emit } = createFakeClient();
+    const onEntry = vi.fn();
+    const log = createModerationLog(client, { maxEntries: 2, onEntry });
+
+    ["1", "2", "3"].forEach((id) =>
+      emit("UserBanned", { id, user: troll, banned_by: mod }),
+    );
+
+    expect(log.getEntries().map(({ id }) => id)).toEqual(["2", "3"]);
+    expect(onEntry).toHaveBeenCalledTimes(3);
+  });
+
+  it("exports entries as JSON and escaped CSV", () => {
+    const { client, emit, messageStore } = createFakeClient();
+    const log = createModerationLog(client);
+    messageStore.add({
+      id: "m1",
+      chatroom_id: 668,
+      content: 'say "hi", please',
+      type: "message",
+      created_at: "2024-01-01T00:00:00Z",
+      sender: { ...troll, identity: { color: "#ffffff", badges: [] } },
+      tokens: [],
+    } as MessageData);
+    emit("UserBanned", { id: "1", user: troll, banned_by: mod });
+    emit("MessageDeleted", { id: "2", message: { id: "m1" } });
+
+    expect(JSON.parse(log.toJSON())).toHaveLength(2);
+    expect(log.toCSV().split("\r\n")).toEqual([
+      "created_at,type,channel,moderator,target,duration,expires_at,message_id,content",
+      "2024-01-01T00:00:00.000Z,ban,xqc,SomeMod,Troll,,,,",
+      '2024-01-01T00:00:00.000Z,messageDeleted,xqc,,Troll,,,m1,"say ""hi"", please"',
+    ]);
+  });
+
+  it("stops recording on detach and resumes on attach", () => {
+    const { client, emit } = createFakeClient();
+    const log = createModerationLog(client);
+
+    log.detach();
+    emit("UserBanned", { id: "1", user: troll, banned_by: mod });
+    log.attach();
+    emit("UserBanned", { id: "2", user: troll, banned_by: mod });
+
+    expect(log.getEntries().map(({ id }) => id)).toEqual(["2"]);
+    log.clear();
+    expect(log.getEntries()).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+import type { KickClient } from "../types/client";
+import type {
+  MessageDeletedEvent,
+  UserBannedEvent,
+  UserUnbannedEvent,
+} from "../types/events";
+import type {
+  ModerationEntry,
+  ModerationLog,
+  ModerationLogOptions,
+  ModerationUser,
+} from "../types/moderation";
+
+const DEFAULT_MAX_ENTRIES = 10000;
+
+const CSV_COLUMNS = [
+  "created_at",
+  "type",
+  "channel",
+  "moderator",
+  "target",
+  "duration",
+  "expires_at",
+  "message_id",
+  "content",
+];
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const matchesUser = (user: ModerationUser | null, query: number | string) => {
+  if (!user) {
+    return false;
+  }
+  return typeof query === "number"
+    ? user.id === query
+    : user.username.toLowerCase() === query.toLowerCase();
+};
+
+const toUser = ({ id, username, slug }: ModerationUser): ModerationUser => ({
+  id,
+  username,
+  slug,
+});
+
+/**
+ * Record a client's bans, timeouts, unbans and message deletions
+ * @param client Client to record moderation events from
+ * @param options Capacity and entry callback
+ * @returns Log to query and export
+ */
+export const createModerationLog = (
+  client: KickClient,
+  { maxEntries = DEFAULT_MAX_ENTRIES, onEntry }: ModerationLogOptions = {},
+): ModerationLog => {
+  const entries: ModerationEntry[] = [];
+
+  const record = (entry: ModerationEntry) => {
+    entries.push(entry);
+    if (entries.length > maxEntries) {
+      entries.splice(0, entries.length - maxEntries);
+    }
+    onEntry?.(entry);
+  };
+
+  const handleBanned = (event: UserBannedEvent) => {
+    const createdAt = new Date();
+    const base = {
+      id: event.id,
+      createdAt,
+      channel: client.getChannel(),
+      moderator: toUser(event.banned_by),
+      target: toUser(event.user),
+    };
+
+    // Only a timeout has an expiry
+    if (!event.expires_at) {
+      record({ ...base, type: "ban" });
+      return;
+    }
+
+    const expiresAt = new Date(event.expires_at);
+    record({
+      ...base,
+      type: "timeout",
+      duration: Math.max(
+        0,
+        Math.round((expiresAt.getTime() - createdAt.getTime()) / 1000),
+      ),
+      expiresAt,
+    });
+  };
+
+  const handleUnbanned = (event: UserUnbannedEvent) => {
+    record({
+      id: event.id,
+      type: "unban",
+      createdAt: new Date(),
+      channel: client.getChannel(),
+      moderator: toUser(event.unbanned_by),
+      target: toUser(event.user),
+    });
+  };
+
+  const handleDeleted = (event: MessageDeletedEvent) => {
+    const stored = client.getMessageStore()?.get(event.message.id);
+    record({
+      id: event.id,
+      type: "messageDeleted",
+      createdAt: new Date(),
+      channel: client.getChannel(),
+      moderator: null,
+      target: stored ? toUser(stored.message.sender) : null,
+      messageId: event.message.id,
+      content: stored?.message.content ?? null,
+    });
+  };
+
+  const detach = () => {
+    client.off("UserBanned", handleBanned);
+    client.off("UserUnbanned", handleUnbanned);
+    client.off("MessageDeleted", handleDeleted);
+  };
+
+  const attach = () => {
+    detach();
+    client.on("UserBanned", handleBanned);
+    client.on("UserUnbanned", handleUnbanned);
+    client.on("MessageDeleted", handleDeleted);
+  };
+
+  attach();
+
+  const toCSV = () => {
+    const rows = entries.map((entry) =>
+      [
+        entry.createdAt.toISOString(),
+        entry.type,
+        entry.channel?.name ?? "",
+        entry.moderator?.username ?? "",
+        entry.target?.username ?? "",
+        entry.type === "timeout" ? String(entry.duration) : "",
+        entry.type === "timeout" ? entry.expiresAt.toISOString() : "",
+        entry.type === "messageDeleted" ? entry.messageId : "",
+        entry.type === "messageDeleted" ? (entry.content ?? "") : "",
+      ]
+        .map(escapeCsv)
+        .join(","),
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+  };
+
+  return {
+    getEntries: (type) =>
+      type ? entries.filter((entry) => entry.type === type) : [...entries],
+    getByUser: (user) =>
+      entries.filter((entry) => matchesUser(entry.target, user)),
+    getByModerator: (moderator) =>
+      entries.filter((entry) => matchesUser(entry.moderator, moderator)),
+    toJSON: () => JSON.stringify(entries, null, 2),
+    toCSV,
+    clear: () => {
+      entries.length = 0;
+    },
+    attach,
+    detach,
+  };
+};
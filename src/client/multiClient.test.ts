@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMultiClient } from "./multiClient";
+import { createChannelResolver } from "../core/channels";
+import { ErrorType } from "../types/client";
+
+const deferredChannel = (chatroomId: number) => {
+  let resolve = () => {};
+  const response = new Promise<Response>((done) => {
+    resolve = () =>
+      done(
+        new Response(JSON.stringify({ id: 1, chatroom: { id: chatroomId } })),
+      );
+  });
+  return { response, resolve };
+};
+
+const clientWithFetch = (fetch: () => Promise<Response>) =>
+  createMultiClient({
+    resolver: createChannelResolver({ fetch, cacheTtl: 0 }),
+  });
+
+describe("createMultiClient join", () => {
+  it("cancels a join that is still resolving when the channel is left", async () => {
+    const channel = deferredChannel(668);
+    const client = clientWithFetch(() => channel.response);
+    const joined = vi.fn();
+    client.on("joined", joined);
+
+    const joining = client.join("xqc");
+    client.leave("xqc");
+    channel.resolve();
+
+    await expect(joining).rejects.toMatchObject({
+      type: ErrorType.CONNECTION,
+      message: "Join of channel xqc was cancelled",
+    });
+    await expect(joining).rejects.toBeInstanceOf(Error);
+    expect(client.getChannels()).toEqual([]);
+    expect(joined).not.toHaveBeenCalled();
+  });
+
+  it("shares one lookup between concurrent joins of a channel", async () => {
+    const channel = deferredChannel(668);
+    const fetch = vi.fn(() => channel.response);
+    const client = clientWithFetch(fetch);
+
+    const joins = [client.join("xqc"), client.join("xqc")];
+    channel.resolve();
+
+    expect(await Promise.all(joins)).toEqual([
+      { id: 668, name: "xqc", channelId: 1 },
+      { id: 668, name: "xqc", channelId: 1 },
+    ]);
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(client.getChannels()).toEqual([
+      { id: 668, name: "xqc", channelId: 1 },
+    ]);
+  });
+
+  it("joins again after a cancelled join", async () => {
+    const first = deferredChannel(668);
+    const second = deferredChannel(668);
+    const client = clientWithFetch(
+      vi
+        .fn<() => Promise<Response>>()
+        .mockReturnValueOnce(first.response)
+        .mockReturnValueOnce(second.response),
+    );
+
+    const cancelled = client.join("xqc");
+    client.leave("xqc");
+    const rejoined = client.join("xqc");
+    first.resolve();
+    second.resolve();
+
+    await expect(cancelled).rejects.toMatchObject({
+      type: ErrorType.CONNECTION,
+    });
+    expect(await rejoined).toEqual({ id: 668, name: "xqc", channelId: 1 });
+    expect(client.getChannels()).toEqual([
+      { id: 668, name: "xqc", channelId: 1 },
+    ]);
+  });
+});
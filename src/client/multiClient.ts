@@ -0,0 +1,376 @@
+import { chatroomChannel, channelEventsChannel } from "../core/websocket";
+import { defaultChannelResolver } from "../core/channels";
+import {
+  DEFAULT_CONNECTION_OPTIONS,
+  createPusherConnection,
+} from "../core/connection";
+import { createEmitter } from "../core/emitter";
+import { createListenerRegistry } from "../core/listeners";
+import { createClientMetrics } from "../core/metrics";
+import { createMessageStore, trackMessage } from "../core/messageStore";
+import { resolveLogger } from "../utils/logger";
+import { createKickError } from "../utils/errors";
+import {
+  createMiddlewarePipeline,
+  plainEmoteMiddleware,
+} from "../core/middleware";
+import {
+  ConnectionState,
+  ErrorType,
+  type KickMultiClient,
+  type MultiClientOptions,
+  type KickError,
+  type ChannelInfo,
+  type KickMultiClientEvents,
+} from "../types/client";
+import type { KickEventMap, ParsedMessage } from "../types/events";
+
+/**
+ * Create a client that watches many channels over a single Pusher socket
+ * @param options Client options plus the channels to join on connect
+ * @returns Client whose events carry the channel they came from
+ */
+export const createMultiClient = (
+  options: MultiClientOptions = {},
+): KickMultiClient => {
+  const emitter = createEmitter<KickMultiClientEvents>();
+
+  // Joined channels, keyed by name and by Pusher channel
+  const channelsByName = new Map<string, ChannelInfo>();
+  const channelsBySubscription = new Map<string, ChannelInfo>();
+  const pendingJoins = new Map<string, Promise<ChannelInfo>>();
+
+  let connectionState: ConnectionState = ConnectionState.DISCONNECTED;
+  // Whether connect() has been called since the last disconnect()
+  let isStarted = false;
+
+  const { addListener, removeListener, removeAllListeners } =
+    createListenerRegistry(emitter);
+
+  const logger = resolveLogger(options.logger);
+
+  const mergedOptions = {
+    ...options,
+    logger,
+    connection: { ...DEFAULT_CONNECTION_OPTIONS, ...options.connection },
+  };
+
+  const metrics = createClientMetrics(mergedOptions.metrics);
+
+  const createError = (
+    type: ErrorType,
+    message: string,
+    originalError?: Error,
+    code?: string | number,
+  ) =>
+    createKickError({
+      type,
+      message,
+      originalError,
+      code,
+      context: { channels: [...channelsByName.keys()], connectionState },
+    });
+
+  const handleError = (error: KickError) => {
+    logger.error(
+      `KickMultiClient Error ${error.type}: ${error.message}`,
+      error.originalError,
+    );
+    if (mergedOptions.onError) {
+      mergedOptions.onError(error);
+    }
+  };
+
+  const setConnectionState = (newState: ConnectionState) => {
+    if (connectionState !== newState) {
+      metrics.stateTransition(connectionState, newState);
+      connectionState = newState;
+      logger.info(`Connection state changed to: ${newState}`);
+      if (mergedOptions.onConnectionStateChange) {
+        mergedOptions.onConnectionStateChange(newState);
+      }
+    }
+  };
+
+  const messageStore = mergedOptions.messageStore
+    ? createMessageStore(
+        mergedOptions.messageStore === true ? {} : mergedOptions.messageStore,
+      )
+    : null;
+
+  const pipeline = createMiddlewarePipeline({
+    logger,
+    emit: (context) => {
+      const deleted = messageStore && trackMessage(messageStore, context);
+      // Only Kick events reach the pipeline, with data matching their type
+      emitter.emit(
+        context.type as keyof KickEventMap,
+        ...([
+          context.data,
+          context.channel,
+        ] as KickMultiClientEvents[keyof KickEventMap]),
+      );
+      if (deleted && context.channel) {
+        emitter.emit("ChatMessageDeleted", deleted, context.channel);
+      }
+    },
+    onError: (error, context) => {
+      handleError(
+        createError(
+          ErrorType.MIDDLEWARE,
+          `Middleware failed for ${context.type} in ${context.channel?.name}`,
+          error,
+        ),
+      );
+    },
+    onListenerError: (error, context) => {
+      handleError(
+        createError(
+          ErrorType.LISTENER,
+          `Listener for ${context.type} in ${context.channel?.name} threw`,
+          error,
+        ),
+      );
+    },
+  });
+
+  if (mergedOptions.plainEmote) {
+    pipeline.use(plainEmoteMiddleware);
+  }
+
+  const handleEvent = (parsedMessage: ParsedMessage) => {
+    const channel = parsedMessage.channel
+      ? channelsBySubscription.get(parsedMessage.channel)
+      : undefined;
+    if (!channel) {
+      logger.debug(
+        `Dropping ${parsedMessage.type} from unjoined channel ${parsedMessage.channel}`,
+      );
+      return;
+    }
+
+    metrics.eventReceived(parsedMessage.type, { channel: channel.name });
+    pipeline.push({
+      ...parsedMessage,
+      channel,
+      state: {},
+    });
+  };
+
+  const connection = createPusherConnection({
+    logger,
+    websocket: mergedOptions.websocket,
+    connection: mergedOptions.connection,
+    createError,
+    onEvent: handleEvent,
+    onOpen: () => {
+      logger.info(`Connected, watching ${channelsByName.size} channels`);
+      emitter.emit("ready");
+    },
+    onClose: () => {
+      logger.warn("Shared connection closed");
+      emitter.emit("disconnect");
+    },
+    onError: handleError,
+    onSocketError: (error) => {
+      handleError(error);
+      emitter.emit("error", error);
+    },
+    onStateChange: setConnectionState,
+    onFrame: (frame) => {
+      mergedOptions.recorder?.record(frame);
+      emitter.emit("raw", frame);
+    },
+    onParseError: metrics.parseFailure,
+    onReconnectAttempt: (attempt, delay) => {
+      metrics.reconnectAttempt();
+      emitter.emit("reconnecting", { attempt, delay });
+    },
+    onReconnected: (attempt, delay) => {
+      emitter.emit("reconnected", { attempt, delay });
+    },
+    onReconnectFailed: (attempt, delay) => {
+      emitter.emit("reconnectFailed", { attempt, delay });
+    },
+    onHeartbeat: metrics.heartbeat,
+    source: mergedOptions.source,
+    validation: mergedOptions.validation,
+  });
+
+  // Pusher channels a joined channel is subscribed through
+  const subscriptionsFor = (channelInfo: ChannelInfo): string[] => {
+    const subscriptions = [chatroomChannel(channelInfo.id)];
+    if (mergedOptions.channelEvents && channelInfo.channelId !== undefined) {
+      subscriptions.push(channelEventsChannel(channelInfo.channelId));
+    }
+    return subscriptions;
+  };
+
+  const resolveChannel = async (channelName: string): Promise<ChannelInfo> => {
+    try {
+      const resolver = mergedOptions.resolver ?? defaultChannelResolver;
+      const { chatroomId, channelId } = await resolver(channelName);
+      const channelInfo: ChannelInfo = {
+        id: chatroomId,
+        name: channelName,
+        channelId,
+      };
+      logger.info(
+        `Found chatroom ID ${channelInfo.id} for channel ${channelName}`,
+      );
+      return channelInfo;
+    } catch (error) {
+      const kickError = createError(
+        ErrorType.CONNECTION,
+        `Failed to join channel ${channelName}`,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+      handleError(kickError);
+      throw kickError;
+    }
+  };
+
+  const join = async (channelName: string): Promise<ChannelInfo> => {
+    const existing = channelsByName.get(channelName);
+    if (existing) {
+      return existing;
+    }
+
+    let pending = pendingJoins.get(channelName);
+    if (!pending) {
+      pending = resolveChannel(channelName);
+      pendingJoins.set(channelName, pending);
+    }
+
+    let channelInfo: ChannelInfo;
+    try {
+      channelInfo = await pending;
+    } catch (error) {
+      if (pendingJoins.get(channelName) === pending) {
+        pendingJoins.delete(channelName);
+      }
+      throw error;
+    }
+
+    const joined = channelsByName.get(channelName);
+    if (joined) {
+      return joined;
+    }
+
+    // leave() or disconnect() dropped this join while it was resolving
+    if (pendingJoins.get(channelName) !== pending) {
+      throw createError(
+        ErrorType.CONNECTION,
+        `Join of channel ${channelName} was cancelled`,
+      );
+    }
+
+    pendingJoins.delete(channelName);
+    channelsByName.set(channelName, channelInfo);
+    for (const subscription of subscriptionsFor(channelInfo)) {
+      channelsBySubscription.set(subscription, channelInfo);
+      connection.subscribe(subscription);
+    }
+    logger.info(`Joined channel: ${channelName}`);
+    emitter.emit("joined", channelInfo);
+
+    return channelInfo;
+  };
+
+  const leave = (channelName: string) => {
+    if (pendingJoins.delete(channelName)) {
+      logger.info(`Cancelled pending join of channel: ${channelName}`);
+    }
+
+    const channelInfo = channelsByName.get(channelName);
+    if (!channelInfo) {
+      return;
+    }
+
+    for (const subscription of subscriptionsFor(channelInfo)) {
+      connection.unsubscribe(subscription);
+      channelsBySubscription.delete(subscription);
+    }
+    channelsByName.delete(channelName);
+    messageStore?.clear(channelInfo.id);
+    logger.info(`Left channel: ${channelName}`);
+    emitter.emit("left", channelInfo);
+  };
+
+  const connect = async (): Promise<void> => {
+    if (connection.isOpen()) {
+      logger.debug("Already connected to WebSocket");
+      return;
+    }
+
+    setConnectionState(ConnectionState.CONNECTING);
+    metrics.start();
+    isStarted = true;
+
+    // A channel that fails to resolve is reported through onError but
+    // doesn't keep the others from joining
+    await Promise.allSettled(
+      (mergedOptions.channels ?? []).map((channelName) => join(channelName)),
+    );
+    if (!isStarted) {
+      throw createError(
+        ErrorType.CONNECTION,
+        "Client disconnected while connecting",
+      );
+    }
+
+    return connection.open();
+  };
+
+  const disconnect = () => {
+    logger.info("Disconnecting client...");
+    connection.close();
+    metrics.stop();
+    isStarted = false;
+    setConnectionState(ConnectionState.DISCONNECTED);
+
+    for (const subscription of connection.getSubscriptions()) {
+      connection.unsubscribe(subscription);
+    }
+    channelsByName.clear();
+    channelsBySubscription.clear();
+    pendingJoins.clear();
+    messageStore?.clear();
+
+    // Clear all event emitter listeners
+    removeAllListeners();
+
+    logger.info("Client disconnected and cleaned up");
+  };
+
+  // Public API
+  return {
+    on: (event, listener) => {
+      addListener(event, listener, false);
+    },
+
+    off: (event, listener) => {
+      removeListener(event, listener);
+    },
+
+    removeListener: (event, listener) => {
+      removeListener(event, listener);
+    },
+
+    once: (event, listener) => {
+      addListener(event, listener, true);
+    },
+
+    removeAllListeners,
+    use: pipeline.use,
+    getMessageStore: () => messageStore,
+    connect,
+    disconnect,
+    reconnect: () => (isStarted ? connection.reconnect() : connect()),
+    join,
+    leave,
+    getChannels: () => [...channelsByName.values()],
+    isConnected: () => connection.isOpen(),
+    getConnectionState: () => connectionState,
+  };
+};
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createPollTracker, getPollWinners } from "./polls";
+import type {
+  KickClient,
+  KickClientEventListener,
+  KickClientEvents,
+} from "../types/client";
+import type { Poll } from "../types/events";
+
+// Just enough of a client to deliver poll events to the tracker
+const createFakeClient = () => {
+  const listeners = new Map<string, Set<(data: unknown) => void>>();
+  const client = {
+    on: <K extends keyof KickClientEvents>(
+      event: K,
+      listener: KickClientEventListener<K>,
+    ) => {
+      const set = listeners.get(event) ?? new Set();
+      set.add(listener as (data: unknown) => void);
+      listeners.set(event, set);
+    },
+    off: <K extends keyof KickClientEvents>(
+      event: K,
+      listener: KickClientEventListener<K>,
+    ) => {
+      listeners.get(event)?.delete(listener as (data: unknown) => void);
+    },
+  } as KickClient;
+  const emit = <K extends keyof KickClientEvents>(
+    event: K,
+    data: KickClientEvents[K],
+  ) => listeners.get(event)?.forEach((listener) => listener(data));
+  const clear = () => listeners.clear();
+  return { client, emit, clear };
+};
+
+const poll = (votes: number[], remaining = 30): Poll => ({
+  title: "Best emote?",
+  options: votes.map((count, index) => ({
+    id: index,
+    label: `option ${index}`,
+    votes: count,
+  })),
+  duration: 30,
+  remaining,
+  result_display_duration: 15,
+});
+
+describe("createPollTracker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports a poll starting, receiving votes and completing", () => {
+    const { client, emit } = createFakeClient();
+    const tracker = createPollTracker(client);
+    const events: string[] = [];
+    tracker.on("PollStarted", () => events.push("started"));
+    tracker.on("PollVotesChanged", ({ totalVotes }) =>
+      events.push(`votes ${totalVotes}`),
+    );
+    const ended = vi.fn();
+    tracker.on("PollEnded", ended);
+
+    emit("PollUpdate", { poll: poll([0, 0]) });
+    emit("PollUpdate", { poll: poll([2, 1], 20) });
+    emit("PollUpdate", { poll: poll([2, 1], 15) });
+    vi.advanceTimersByTime(15000);
+
+    expect(events).toEqual(["started", "votes 3"]);
+    expect(ended).toHaveBeenCalledWith({
+      poll: poll([2, 1], 15),
+      winners: [{ id: 0, label: "option 0", votes: 2 }],
+      totalVotes: 3,
+      reason: "completed",
+    });
+    expect(tracker.getPoll()).toEqual(poll([2, 1], 15));
+  });
+
+  it("ignores updates while the results are showing", () => {
+    const { client, emit } = createFakeClient();
+    const tracker = createPollTracker(client);
+    const votes = vi.fn();
+    const ended = vi.fn();
+    tracker.on("PollVotesChanged", votes);
+    tracker.on("PollEnded", ended);
+
+    emit("PollUpdate", { poll: poll([1, 0], 1) });
+    vi.advanceTimersByTime(1000);
+    emit("PollUpdate", { poll: poll([1, 5], 0) });
+    vi.advanceTimersByTime(1000);
+
+    expect(votes).not.toHaveBeenCalled();
+    expect(ended).toHaveBeenCalledOnce();
+  });
+
+  it("ends a poll early when it is deleted", () => {
+    const { client, emit } = createFakeClient();
+    const tracker = createPollTracker(client);
+    const ended = vi.fn();
+    tracker.on("PollEnded", ended);
+
+    emit("PollUpdate", { poll: poll([1, 1]) });
+    emit("PollDelete", {});
+    vi.advanceTimersByTime(30000);
+
+    expect(ended).toHaveBeenCalledOnce();
+    expect(ended).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "deleted", totalVotes: 2 }),
+    );
+    expect(tracker.getPoll()).toBeNull();
+  });
+
+  it("treats a different poll as a new one", () => {
+    const { client, emit } = createFakeClient();
+    const tracker = createPollTracker(client);
+    const started = vi.fn();
+    const ended = vi.fn();
+    tracker.on("PollStarted", started);
+    tracker.on("PollEnded", ended);
+
+    emit("PollUpdate", { poll: poll([1]) });
+    emit("PollUpdate", { poll: { ...poll([0]), title: "Next question" } });
+
+    expect(started).toHaveBeenCalledTimes(2);
+    expect(ended).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "deleted" }),
+    );
+  });
+
+  it("stops listening on detach and resumes on attach", () => {
+    const { client, emit, clear } = createFakeClient();
+    const tracker = createPollTracker(client);
+    const started = vi.fn();
+    tracker.on("PollStarted", started);
+
+    tracker.detach();
+    emit("PollUpdate", { poll: poll([0]) });
+    expect(started).not.toHaveBeenCalled();
+
+    // disconnect() removes every client listener
+    clear();
+    tracker.attach();
+    emit("PollUpdate", { poll: poll([0]) });
+    expect(started).toHaveBeenCalledOnce();
+  });
+});
+
+describe("getPollWinners", () => {
+  it("returns every option tied for the most votes", () => {
+    expect(getPollWinners(poll([3, 1, 3])).map(({ id }) => id)).toEqual([0, 2]);
+  });
+
+  it("returns no winners without votes", () => {
+    expect(getPollWinners(poll([0, 0]))).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import { createEmitter } from "../core/emitter";
+import type { KickClient } from "../types/client";
+import type {
+  Poll,
+  PollDeleteEvent,
+  PollOption,
+  PollUpdateEvent,
+} from "../types/events";
+import type {
+  PollEndedEvent,
+  PollTracker,
+  PollTrackerEvents,
+} from "../types/polls";
+
+const totalVotes = (poll: Poll) =>
+  poll.options.reduce((total, option) => total + option.votes, 0);
+
+/**
+ * Options with the most votes
+ */
+export const getPollWinners = (poll: Poll): PollOption[] => {
+  const most = Math.max(0, ...poll.options.map((option) => option.votes));
+  return most > 0 ? poll.options.filter((option) => option.votes === most) : [];
+};
+
+// Kick sends no poll id, so a poll is identified by its question and options
+const isSamePoll = (a: Poll, b: Poll) =>
+  a.title === b.title &&
+  a.options.length === b.options.length &&
+  a.options.every((option, index) => option.label === b.options[index]?.label);
+
+const votesChanged = (a: Poll, b: Poll) =>
+  a.options.some((option, index) => option.votes !== b.options[index]?.votes);
+
+/**
+ * Follow a client's poll events and report when polls start, receive votes
+ * and end
+ * @param client Client whose PollUpdate and PollDelete events are tracked
+ * @returns Tracker emitting PollStarted, PollVotesChanged and PollEnded
+ */
+export const createPollTracker = (client: KickClient): PollTracker => {
+  const emitter = createEmitter<{
+    [K in keyof PollTrackerEvents]: [data: PollTrackerEvents[K]];
+  }>();
+  let poll: Poll | null = null;
+  let ended = false;
+  let endTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearEndTimer = () => {
+    if (endTimer) {
+      clearTimeout(endTimer);
+      endTimer = null;
+    }
+  };
+
+  const end = (reason: PollEndedEvent["reason"]) => {
+    clearEndTimer();
+    if (!poll || ended) {
+      return;
+    }
+
+    ended = true;
+    emitter.emit("PollEnded", {
+      poll,
+      winners: getPollWinners(poll),
+      totalVotes: totalVotes(poll),
+      reason,
+    });
+  };
+
+  // Voting closes once the time left in the latest update runs out
+  const scheduleEnd = (remaining: number) => {
+    clearEndTimer();
+    endTimer = setTimeout(
+      () => end("completed"),
+      Math.max(0, remaining) * 1000,
+    );
+  };
+
+  const handleUpdate = ({ poll: update }: PollUpdateEvent) => {
+    if (!poll || !isSamePoll(poll, update)) {
+      end("deleted");
+      poll = update;
+      ended = false;
+      emitter.emit("PollStarted", { poll: update });
+      scheduleEnd(update.remaining);
+      return;
+    }
+
+    // Late updates while results are showing don't change the outcome
+    if (ended) {
+      return;
+    }
+
+    const previous = poll;
+    poll = update;
+    scheduleEnd(update.remaining);
+    if (votesChanged(previous, update)) {
+      emitter.emit("PollVotesChanged", {
+        poll: update,
+        previous,
+        totalVotes: totalVotes(update),
+      });
+    }
+  };
+
+  const handleDelete = (_event: PollDeleteEvent) => {
+    end("deleted");
+    poll = null;
+    ended = false;
+  };
+
+  const unsubscribe = () => {
+    client.off("PollUpdate", handleUpdate);
+    client.off("PollDelete", handleDelete);
+  };
+
+  const attach = () => {
+    unsubscribe();
+    client.on("PollUpdate", handleUpdate);
+    client.on("PollDelete", handleDelete);
+  };
+
+  attach();
+
+  return {
+    on: (event, listener) => {
+      emitter.on(event, listener);
+    },
+    off: (event, listener) => {
+      emitter.removeListener(event, listener);
+    },
+    getPoll: () => poll,
+    attach,
+    detach: () => {
+      clearEndTimer();
+      unsubscribe();
+    },
+  };
+};
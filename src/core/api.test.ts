@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from "vitest";
+import { createApiClient, type ApiClientOptions } from "./api";
+import { createDefaultLogger } from "../utils/logger";
+import { createKickError } from "../utils/errors";
+import { ErrorType } from "../types/client";
+import type { HttpResponse, HttpTransport } from "../types/http";
+
+const response = (
+  status: number,
+  body = "",
+  headers: Record<string, string> = {},
+): HttpResponse => ({ status, headers, body });
+
+const createApi = (
+  transport: HttpTransport,
+  { auth = () => "token" }: Pick<ApiClientOptions, "auth"> = {},
+) =>
+  createApiClient({
+    transport,
+    baseUrl: "https://example.com/",
+    retryDelay: 1,
+    auth,
+    logger: createDefaultLogger(),
+    createError: (type, message, originalError, code) =>
+      createKickError({ type, message, originalError, code }),
+  });
+
+describe("createApiClient", () => {
+  it("sends authenticated JSON requests and decodes the response", async () => {
+    const transport = vi.fn<HttpTransport>(() =>
+      Promise.resolve(response(200, '{"ok":true}')),
+    );
+
+    const result = await createApi(transport).request("POST", "/api/x", {
+      a: 1,
+    });
+
+    expect(result).toEqual({ ok: true });
+    expect(transport).toHaveBeenCalledWith({
+      method: "POST",
+      url: "https://example.com/api/x",
+      headers: expect.objectContaining({
+        Authorization: "Bearer token",
+      }) as unknown,
+      body: '{"a":1}',
+    });
+  });
+
+  it("returns null for empty and non-JSON bodies", async () => {
+    const api = createApi(
+      vi
+        .fn<HttpTransport>()
+        .mockResolvedValueOnce(response(204))
+        .mockResolvedValueOnce(response(200, "<html>")),
+    );
+
+    expect(await api.request("DELETE", "/api/x")).toBeNull();
+    expect(await api.request("GET", "/api/x")).toBeNull();
+  });
+
+  it("retries rate-limited requests after Retry-After", async () => {
+    vi.useFakeTimers();
+    const transport = vi
+      .fn<HttpTransport>()
+      .mockResolvedValueOnce(response(429, "", { "retry-after": "2" }))
+      .mockResolvedValueOnce(response(200, "{}"));
+
+    const result = createApi(transport).request("GET", "/api/x");
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(transport).toHaveBeenCalledOnce();
+    await vi.advanceTimersByTimeAsync(1);
+    vi.useRealTimers();
+
+    expect(await result).toEqual({});
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects with the status once retries run out", async () => {
+    const api = createApi(() => Promise.resolve(response(429, "slow down")));
+
+    const request = api.request("GET", "/api/x");
+    await expect(request).rejects.toBeInstanceOf(Error);
+    await expect(request).rejects.toMatchObject({
+      type: ErrorType.API_REQUEST,
+      code: 429,
+      originalError: new Error("slow down"),
+    });
+  });
+
+  it("reports 401 and 403 as authentication errors", async () => {
+    const api = createApi(() => Promise.resolve(response(403)));
+
+    await expect(api.request("GET", "/api/x")).rejects.toMatchObject({
+      type: ErrorType.AUTHENTICATION,
+      code: 403,
+    });
+  });
+
+  it("rejects without an auth provider or when it fails", async () => {
+    const transport = vi.fn<HttpTransport>();
+
+    const withoutAuth = createApiClient({
+      transport,
+      logger: createDefaultLogger(),
+      createError: (type, message) => createKickError({ type, message }),
+    });
+
+    await expect(withoutAuth.request("GET", "/api/x")).rejects.toThrow(
+      "An auth provider is required for API requests",
+    );
+    await expect(
+      createApi(transport, {
+        auth: () => Promise.reject(new Error("expired")),
+      }).request("GET", "/api/x"),
+    ).rejects.toMatchObject({
+      type: ErrorType.AUTHENTICATION,
+      originalError: new Error("expired"),
+    });
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it("wraps transport failures", async () => {
+    const api = createApi(() => Promise.reject(new Error("ECONNRESET")));
+
+    await expect(api.request("GET", "/api/x")).rejects.toMatchObject({
+      type: ErrorType.API_REQUEST,
+      message: "GET /api/x failed",
+      originalError: new Error("ECONNRESET"),
+    });
+  });
+});
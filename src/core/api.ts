@@ -0,0 +1,171 @@
+import { ErrorType, type KickError, type Logger } from "../types/client";
+import type {
+  AuthProvider,
+  HttpOptions,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+} from "../types/http";
+import { delay, parseJSON } from "../utils/utils";
+
+const DEFAULT_API_URL = "https://kick.com";
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+
+/**
+ * Create an HTTP transport backed by fetch
+ * @param fetchImpl Fetch implementation (defaults to the global fetch)
+ */
+export const createFetchTransport =
+  (fetchImpl?: typeof fetch): HttpTransport =>
+  async ({ method, url, headers, body }) => {
+    const response = await (fetchImpl ?? fetch)(url, { method, headers, body });
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      responseHeaders[name.toLowerCase()] = value;
+    });
+    return {
+      status: response.status,
+      headers: responseHeaders,
+      body: await response.text(),
+    };
+  };
+
+// Retry-After is either a number of seconds or an HTTP date
+const retryAfter = (response: HttpResponse): number | null => {
+  const header = response.headers["retry-after"];
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+export interface ApiClientOptions extends HttpOptions {
+  auth?: AuthProvider;
+  logger: Logger;
+  createError: (
+    type: ErrorType,
+    message: string,
+    originalError?: Error,
+    code?: string | number,
+  ) => KickError & Error;
+}
+
+export interface ApiClient {
+  /**
+   * Make an authenticated request, retrying rate-limited ones
+   * @returns The decoded JSON response, or null for an empty body
+   */
+  request: <T>(
+    method: HttpRequest["method"],
+    path: string,
+    body?: unknown,
+  ) => Promise<T | null>;
+}
+
+/**
+ * Create a client for Kick's authenticated HTTP API
+ * @param options Transport, auth provider and retry settings
+ */
+export const createApiClient = ({
+  transport = createFetchTransport(),
+  baseUrl = DEFAULT_API_URL,
+  headers = {},
+  maxRetries = DEFAULT_MAX_RETRIES,
+  retryDelay = DEFAULT_RETRY_DELAY,
+  auth,
+  logger,
+  createError,
+}: ApiClientOptions): ApiClient => {
+  const getToken = async (): Promise<string> => {
+    if (!auth) {
+      throw createError(
+        ErrorType.AUTHENTICATION,
+        "An auth provider is required for API requests",
+      );
+    }
+
+    try {
+      return await auth();
+    } catch (error) {
+      throw createError(
+        ErrorType.AUTHENTICATION,
+        "Auth provider failed",
+        toError(error),
+      );
+    }
+  };
+
+  const request = async <T>(
+    method: HttpRequest["method"],
+    path: string,
+    body?: unknown,
+  ): Promise<T | null> => {
+    const token = await getToken();
+    const url = `${baseUrl.replace(/\/$/, "")}${path}`;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: HttpResponse;
+      try {
+        response = await transport({
+          method,
+          url,
+          headers: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+            ...headers,
+            Authorization: `Bearer ${token}`,
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+      } catch (error) {
+        throw createError(
+          ErrorType.API_REQUEST,
+          `${method} ${path} failed`,
+          toError(error),
+        );
+      }
+
+      if (response.status === 429 && attempt < maxRetries) {
+        const wait = retryAfter(response) ?? retryDelay * 2 ** attempt;
+        logger.warn(`Rate limited on ${method} ${path}, retrying in ${wait}ms`);
+        await delay(wait);
+        continue;
+      }
+
+      if (response.status < 200 || response.status >= 300) {
+        const type =
+          response.status === 401 || response.status === 403
+            ? ErrorType.AUTHENTICATION
+            : ErrorType.API_REQUEST;
+        throw createError(
+          type,
+          `${method} ${path} failed with status ${response.status}`,
+          response.body ? new Error(response.body) : undefined,
+          response.status,
+        );
+      }
+
+      if (!response.body) {
+        return null;
+      }
+      try {
+        return parseJSON<T>(response.body);
+      } catch {
+        logger.debug(`Non-JSON response from ${method} ${path}`);
+        return null;
+      }
+    }
+  };
+
+  return { request };
+};
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createChannelResolver, createStaticChannelResolver } from "./channels";
+
+const channelResponse = (chatroomId: number) =>
+  new Response(
+    JSON.stringify({ id: 1, chatroom: { id: chatroomId, slow_mode: false } }),
+  );
+
+describe("createChannelResolver", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("looks a channel up through the configured endpoint", async () => {
+    const fetch = vi.fn(() => Promise.resolve(channelResponse(668)));
+    const resolve = createChannelResolver({
+      fetch,
+      baseUrl: "https://example.com/channels/",
+      headers: { "user-agent": "test" },
+    });
+
+    expect(await resolve("xqc")).toEqual({
+      chatroomId: 668,
+      channelId: 1,
+      chatroom: { id: 668, slow_mode: false },
+    });
+    expect(fetch).toHaveBeenCalledWith("https://example.com/channels/xqc", {
+      headers: { "user-agent": "test" },
+    });
+  });
+
+  it("serves lookups from the cache until the TTL runs out", async () => {
+    const fetch = vi.fn(() => Promise.resolve(channelResponse(668)));
+    const resolve = createChannelResolver({ fetch, cacheTtl: 1000 });
+
+    await resolve("xqc");
+    vi.advanceTimersByTime(999);
+    await resolve("xqc");
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await resolve("xqc");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't cache when the TTL is zero", async () => {
+    const fetch = vi.fn(() => Promise.resolve(channelResponse(668)));
+    const resolve = createChannelResolver({ fetch, cacheTtl: 0 });
+
+    await resolve("xqc");
+    await resolve("xqc");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares one in-flight lookup between concurrent callers", async () => {
+    let respond = (_response: Response) => {};
+    const fetch = vi.fn(
+      () =>
+        new Promise<Response>((resolve) => {
+          respond = resolve;
+        }),
+    );
+    const resolve = createChannelResolver({ fetch });
+
+    const lookups = [resolve("xqc"), resolve("xqc")];
+    respond(channelResponse(668));
+
+    const [first, second] = await Promise.all(lookups);
+    expect(first).toBe(second);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it("doesn't cache failed lookups", async () => {
+    const fetch = vi
+      .fn<() => Promise<Response>>()
+      .mockResolvedValueOnce(
+        new Response(null, { status: 404, statusText: "Not Found" }),
+      )
+      .mockResolvedValueOnce(channelResponse(668));
+    const resolve = createChannelResolver({ fetch });
+
+    await expect(resolve("xqc")).rejects.toThrow(
+      "Failed to get channel data for xqc: Not Found",
+    );
+    expect(await resolve("xqc")).toMatchObject({ chatroomId: 668 });
+  });
+
+  it("rejects channels without a chatroom", async () => {
+    const resolve = createChannelResolver({
+      fetch: () => Promise.resolve(new Response(JSON.stringify({ id: 1 }))),
+    });
+
+    await expect(resolve("xqc")).rejects.toThrow(
+      "No chatroom ID found for channel xqc",
+    );
+  });
+});
+
+describe("createStaticChannelResolver", () => {
+  it("resolves configured channels without the network", async () => {
+    const resolve = createStaticChannelResolver({
+      xqc: 668,
+      trainwreckstv: { chatroomId: 123, channelId: 456 },
+    });
+
+    expect(await resolve("xqc")).toEqual({ chatroomId: 668 });
+    expect(await resolve("trainwreckstv")).toEqual({
+      chatroomId: 123,
+      channelId: 456,
+    });
+  });
+
+  it("rejects channels that aren't configured", async () => {
+    const resolve = createStaticChannelResolver({});
+
+    await expect(resolve("xqc")).rejects.toThrow(
+      "No chatroom ID configured for channel xqc",
+    );
+  });
+});
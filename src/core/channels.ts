@@ -0,0 +1,99 @@
+import type {
+  ChannelResolver,
+  ChannelResolverOptions,
+  ResolvedChannel,
+} from "../types/client";
+import type { KickChannelInfo } from "../types/channels";
+
+const DEFAULT_CHANNELS_URL = "https://kick.com/api/v1/channels";
+const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Create a channel resolver backed by Kick's channel API, with a TTL cache
+ * @param options Fetch implementation, endpoint, headers and cache TTL
+ * @returns Resolver that looks up each channel at most once per TTL
+ */
+export const createChannelResolver = ({
+  fetch: fetchImpl,
+  baseUrl = DEFAULT_CHANNELS_URL,
+  headers = {},
+  cacheTtl = DEFAULT_CACHE_TTL,
+}: ChannelResolverOptions = {}): ChannelResolver => {
+  const cache = new Map<
+    string,
+    { channel: ResolvedChannel; expiresAt: number }
+  >();
+  const pending = new Map<string, Promise<ResolvedChannel>>();
+
+  const lookup = async (channelName: string): Promise<ResolvedChannel> => {
+    const response = await (fetchImpl ?? fetch)(
+      `${baseUrl.replace(/\/$/, "")}/${channelName}`,
+      { headers },
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Failed to get channel data for ${channelName}: ${response.statusText}`,
+      );
+    }
+
+    const channel = (await response.json()) as KickChannelInfo;
+    if (!channel.chatroom?.id) {
+      throw new Error(`No chatroom ID found for channel ${channelName}`);
+    }
+
+    return {
+      chatroomId: channel.chatroom.id,
+      channelId: channel.id,
+      chatroom: channel.chatroom,
+    };
+  };
+
+  return async (channelName: string): Promise<ResolvedChannel> => {
+    const cached = cache.get(channelName);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.channel;
+    }
+
+    // Share one in-flight lookup between concurrent callers
+    let request = pending.get(channelName);
+    if (!request) {
+      request = lookup(channelName).finally(() => {
+        pending.delete(channelName);
+      });
+      pending.set(channelName, request);
+    }
+
+    const channel = await request;
+    if (cacheTtl > 0) {
+      cache.set(channelName, { channel, expiresAt: Date.now() + cacheTtl });
+    }
+    return channel;
+  };
+};
+
+/**
+ * Create a resolver for channels whose IDs are already known
+ * @param channels Chatroom IDs, or full resolved channels, keyed by channel name
+ * @returns Resolver that never touches the network
+ */
+export const createStaticChannelResolver = (
+  channels: Record<string, number | ResolvedChannel>,
+): ChannelResolver => {
+  return (channelName: string): Promise<ResolvedChannel> => {
+    const channel = channels[channelName];
+    if (channel === undefined) {
+      return Promise.reject(
+        new Error(`No chatroom ID configured for channel ${channelName}`),
+      );
+    }
+    return Promise.resolve(
+      typeof channel === "number" ? { chatroomId: channel } : channel,
+    );
+  };
+};
+
+/**
+ * Resolver shared by clients that don't configure their own, so every
+ * client in a process benefits from the same cache
+ */
+export const defaultChannelResolver = createChannelResolver();
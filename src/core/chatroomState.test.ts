@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  createChatroomState,
+  diffChatroomState,
+  reduceChatroomState,
+} from "./chatroomState";
+import type { ChatroomUpdatedEvent, KickEventMap, Poll } from "../types/events";
+import type { MiddlewareContext } from "../types/middleware";
+
+const context = <K extends keyof KickEventMap>(
+  type: K,
+  data: KickEventMap[K],
+): MiddlewareContext =>
+  ({ type, data, channel: null, state: {} }) as MiddlewareContext;
+
+const chatroomUpdated: ChatroomUpdatedEvent = {
+  id: 668,
+  slow_mode: { enabled: true, message_interval: 5 },
+  subscribers_mode: { enabled: false },
+  followers_mode: { enabled: true, min_duration: 10 },
+  emotes_mode: { enabled: false },
+};
+
+describe("chatroom state", () => {
+  it("starts from the chatroom settings of the channel lookup", () => {
+    expect(
+      createChatroomState(668, { slow_mode: true, message_interval: 3 }),
+    ).toEqual({
+      chatroomId: 668,
+      slowMode: true,
+      messageInterval: 3,
+      followersMode: false,
+      followingMinDuration: 0,
+      subscribersMode: false,
+      emotesMode: false,
+      pinnedMessage: null,
+      poll: null,
+    });
+  });
+
+  it("follows ChatroomUpdated events", () => {
+    const state = reduceChatroomState(
+      createChatroomState(668),
+      context("ChatroomUpdated", chatroomUpdated),
+    );
+
+    expect(state).toMatchObject({
+      slowMode: true,
+      messageInterval: 5,
+      followersMode: true,
+      followingMinDuration: 10,
+      subscribersMode: false,
+      emotesMode: false,
+    });
+  });
+
+  it("tracks the pinned message and poll", () => {
+    const pinned = {
+      message: { id: "1", content: "hi" },
+      duration: "60",
+    } as KickEventMap["PinnedMessageCreated"];
+    const poll: Poll = {
+      title: "Best emote?",
+      options: [{ id: 1, label: "KEKW", votes: 0 }],
+      duration: 30,
+      remaining: 30,
+      result_display_duration: 15,
+    };
+
+    let state = createChatroomState(668);
+    state = reduceChatroomState(state, context("PinnedMessageCreated", pinned));
+    state = reduceChatroomState(state, context("PollUpdate", { poll }));
+    expect(state).toMatchObject({ pinnedMessage: pinned, poll });
+
+    state = reduceChatroomState(
+      state,
+      context("PinnedMessageDeleted", { id: "2", message: { id: "1" } }),
+    );
+    state = reduceChatroomState(state, context("PollDelete", {}));
+    expect(state).toMatchObject({ pinnedMessage: null, poll: null });
+  });
+
+  it("returns the same state for unrelated events", () => {
+    const state = createChatroomState(668);
+
+    expect(
+      reduceChatroomState(
+        state,
+        context("UnknownEvent", { event: "x", data: null }),
+      ),
+    ).toBe(state);
+  });
+
+  it("diffs only the fields that changed", () => {
+    const previous = createChatroomState(668);
+    const current = reduceChatroomState(
+      previous,
+      context("ChatroomUpdated", chatroomUpdated),
+    );
+
+    expect(diffChatroomState(previous, current)).toEqual({
+      slowMode: { previous: false, current: true },
+      messageInterval: { previous: 0, current: 5 },
+      followersMode: { previous: false, current: true },
+      followingMinDuration: { previous: 0, current: 10 },
+    });
+    expect(diffChatroomState(current, current)).toEqual({});
+  });
+});
@@ -0,0 +1,73 @@
+import type { Chatroom } from "../types/channels";
+import type { ChatroomState, ChatroomStateDiff } from "../types/chatroom";
+import type { MiddlewareContext } from "../types/middleware";
+
+/**
+ * Initial state for a chatroom, from the channel lookup when it returned one
+ * @param chatroomId Chatroom the state belongs to
+ * @param chatroom Chatroom settings from the lookup
+ */
+export const createChatroomState = (
+  chatroomId: number,
+  chatroom?: Partial<Chatroom>,
+): ChatroomState => ({
+  chatroomId,
+  slowMode: chatroom?.slow_mode ?? false,
+  messageInterval: chatroom?.message_interval ?? 0,
+  followersMode: chatroom?.followers_mode ?? false,
+  followingMinDuration: chatroom?.following_min_duration ?? 0,
+  subscribersMode: chatroom?.subscribers_mode ?? false,
+  emotesMode: chatroom?.emotes_mode ?? false,
+  pinnedMessage: null,
+  poll: null,
+});
+
+/**
+ * Apply an event to a chatroom's state
+ * @returns The next state, or the same object if the event doesn't affect it
+ */
+export const reduceChatroomState = (
+  state: ChatroomState,
+  context: MiddlewareContext,
+): ChatroomState => {
+  switch (context.type) {
+    case "ChatroomUpdated": {
+      const { data } = context;
+      return {
+        ...state,
+        slowMode: data.slow_mode.enabled,
+        messageInterval: data.slow_mode.message_interval,
+        followersMode: data.followers_mode.enabled,
+        followingMinDuration: data.followers_mode.min_duration,
+        subscribersMode: data.subscribers_mode.enabled,
+        emotesMode: data.emotes_mode.enabled,
+      };
+    }
+    case "PinnedMessageCreated":
+      return { ...state, pinnedMessage: context.data };
+    case "PinnedMessageDeleted":
+      return { ...state, pinnedMessage: null };
+    case "PollUpdate":
+      return { ...state, poll: context.data.poll };
+    case "PollDelete":
+      return { ...state, poll: null };
+    default:
+      return state;
+  }
+};
+
+/**
+ * Fields whose values differ between two states
+ */
+export const diffChatroomState = (
+  previous: ChatroomState,
+  current: ChatroomState,
+): ChatroomStateDiff => {
+  const changes: Record<string, { previous: unknown; current: unknown }> = {};
+  for (const key of Object.keys(current) as (keyof ChatroomState)[]) {
+    if (!Object.is(previous[key], current[key])) {
+      changes[key] = { previous: previous[key], current: current[key] };
+    }
+  }
+  return changes as ChatroomStateDiff;
+};
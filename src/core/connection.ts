@@ -0,0 +1,658 @@
+import {
+  createWebSocket,
+  isAuthenticatedChannel,
+  sendPusherEvent,
+  subscribeChannel,
+  unsubscribeChannel,
+} from "./websocket";
+import { SOCKET_OPEN } from "./transport";
+import { addDerivedFields, decodeFrame } from "./messageHandling";
+import { validateEvent } from "./schemas";
+import { createFullJitterPolicy } from "./reconnect";
+import {
+  ConnectionState,
+  ErrorType,
+  type ConnectionOptions,
+  type KickError,
+  type Logger,
+  type WebSocketConfig,
+  type FrameSource,
+  type ValidationMode,
+} from "../types/client";
+import type { ParsedMessage, PusherEventMap } from "../types/events";
+import type { TransportSocket } from "../types/transport";
+
+export const DEFAULT_CONNECTION_OPTIONS: ConnectionOptions = {
+  autoReconnect: true,
+  maxReconnectAttempts: 10,
+  reconnectInterval: 1000,
+  maxReconnectInterval: 30000,
+  heartbeatInterval: 30000,
+  pongTimeout: 30000,
+};
+
+// Pusher protocol frames, which drive the connection and are never dropped
+const PROTOCOL_EVENTS: Record<keyof PusherEventMap, true> = {
+  PusherConnectionEstablished: true,
+  PusherSubscriptionSucceeded: true,
+  PusherPong: true,
+  PusherPing: true,
+  PusherError: true,
+  PusherSubscriptionError: true,
+};
+
+export interface PusherConnectionOptions {
+  logger: Logger;
+  websocket?: WebSocketConfig;
+  connection?: ConnectionOptions;
+  createError: (
+    type: ErrorType,
+    message: string,
+    originalError?: Error,
+    code?: string | number,
+  ) => KickError & Error;
+  /** Called with every parsed Kick event; Pusher protocol events are handled internally */
+  onEvent: (message: ParsedMessage) => void;
+  /** Called each time the socket opens, including after a reconnect */
+  onOpen: () => void;
+  /** Called when the socket closes without close() having been called */
+  onClose: () => void;
+  /** Called for errors raised while handling a frame */
+  onError: (error: KickError) => void;
+  /** Called when the socket itself errors */
+  onSocketError: (error: KickError) => void;
+  onStateChange: (state: ConnectionState) => void;
+  /** Called with every raw frame before it is parsed */
+  onFrame?: (frame: string) => void;
+  /** Called when a frame can't be parsed */
+  onParseError?: (error: Error) => void;
+  /** Called when a reconnect is scheduled, with the attempt number and delay in ms */
+  onReconnectAttempt?: (attempt: number, delay: number) => void;
+  /** Called when a reconnection attempt opens the socket */
+  onReconnected?: (attempt: number, delay: number) => void;
+  /** Called when reconnecting gives up, with the last attempt made */
+  onReconnectFailed?: (attempt: number, delay: number) => void;
+  /** Called with the round-trip time in ms of each answered Pusher ping */
+  onHeartbeat?: (rtt: number) => void;
+  /** Read frames from this source instead of opening a socket */
+  source?: FrameSource;
+  /** Check parsed payloads against their schemas (default: "off") */
+  validation?: ValidationMode;
+}
+
+export interface PusherConnection {
+  /** Open the socket; resolves once it is open */
+  open: () => Promise<void>;
+  /** Close the socket and stop reconnecting */
+  close: () => void;
+  /** Replace the socket with a new one right away */
+  reconnect: () => Promise<void>;
+  /** Subscribe to a Pusher channel, now if open and again after every reconnect */
+  subscribe: (channel: string) => void;
+  /** Unsubscribe from a Pusher channel */
+  unsubscribe: (channel: string) => void;
+  /** Pusher channels currently subscribed to */
+  getSubscriptions: () => string[];
+  isOpen: () => boolean;
+}
+
+/**
+ * Manage a single Pusher socket shared by any number of channel subscriptions.
+ * Follows the Pusher keepalive protocol, reconnects as the reconnect policy
+ * says and restores subscriptions once the connection is re-established.
+ */
+export const createPusherConnection = ({
+  logger,
+  websocket,
+  connection = {},
+  createError,
+  onEvent,
+  onOpen,
+  onClose,
+  onError,
+  onSocketError,
+  onStateChange,
+  onFrame,
+  onParseError,
+  onReconnectAttempt,
+  onReconnected,
+  onReconnectFailed,
+  onHeartbeat,
+  source,
+  validation = "off",
+}: PusherConnectionOptions): PusherConnection => {
+  const options = { ...DEFAULT_CONNECTION_OPTIONS, ...connection };
+  const subscriptions = new Set<string>();
+  const reconnectPolicy =
+    options.reconnectPolicy ??
+    createFullJitterPolicy({
+      baseDelay: options.reconnectInterval,
+      maxDelay: options.maxReconnectInterval,
+    });
+
+  let socket: TransportSocket | null = null;
+  let isEstablished = false;
+  let socketId: string | null = null;
+  let isReplaying = false;
+  let isClosed = false;
+  let reconnectAttempts = 0;
+  // Delay before the latest reconnection attempt
+  let reconnectDelay: number | null = null;
+  // The open() or reconnect() call waiting for the current socket to open
+  let pendingOpen: {
+    resolve: () => void;
+    reject: (error: KickError & Error) => void;
+  } | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let activityTimer: ReturnType<typeof setTimeout> | null = null;
+  let pongTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingSentAt: number | null = null;
+  // Server's activity_timeout in ms, from pusher:connection_established
+  let serverActivityTimeout: number | null = null;
+
+  const isSocketOpen = (): boolean => {
+    return socket !== null && socket.readyState === SOCKET_OPEN;
+  };
+
+  const isOpen = (): boolean => {
+    return isSocketOpen() || isReplaying;
+  };
+
+  const stopHeartbeat = () => {
+    if (activityTimer) {
+      clearTimeout(activityTimer);
+      activityTimer = null;
+    }
+    if (pongTimer) {
+      clearTimeout(pongTimer);
+      pongTimer = null;
+    }
+  };
+
+  const sendPing = () => {
+    activityTimer = null;
+    if (!isSocketOpen()) {
+      return;
+    }
+
+    logger.debug("Sending Pusher ping");
+    sendPusherEvent(socket!, "pusher:ping");
+    pingSentAt = Date.now();
+
+    const pongTimeout = options.pongTimeout || 30000;
+    pongTimer = setTimeout(() => {
+      pongTimer = null;
+      logger.warn(
+        `No pong received within ${pongTimeout}ms, connection is dead`,
+      );
+      // Terminating fires close, which schedules the reconnect
+      socket?.terminate();
+    }, pongTimeout);
+  };
+
+  // Any traffic from the server proves the connection is alive, so the
+  // ping is only sent after a full activity timeout of silence
+  const startHeartbeat = () => {
+    stopHeartbeat();
+
+    const intervals = [serverActivityTimeout, options.heartbeatInterval].filter(
+      (interval): interval is number => !!interval,
+    );
+    if (intervals.length === 0) {
+      return;
+    }
+
+    activityTimer = setTimeout(sendPing, Math.min(...intervals));
+  };
+
+  const settleOpen = (error?: KickError & Error) => {
+    const pending = pendingOpen;
+    pendingOpen = null;
+    if (error) {
+      pending?.reject(error);
+    } else {
+      pending?.resolve();
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (reconnectTimer) {
+      return;
+    }
+
+    if (!options.autoReconnect || isClosed) {
+      logger.debug("Reconnection disabled");
+      return;
+    }
+
+    const delay =
+      reconnectAttempts < (options.maxReconnectAttempts || 10)
+        ? reconnectPolicy({
+            attempt: reconnectAttempts + 1,
+            previousDelay: reconnectDelay,
+          })
+        : null;
+    if (delay === null) {
+      logger.warn(`Giving up reconnecting after ${reconnectAttempts} attempts`);
+      onReconnectFailed?.(reconnectAttempts, reconnectDelay ?? 0);
+      settleOpen(
+        createError(
+          ErrorType.CONNECTION,
+          `Gave up reconnecting after ${reconnectAttempts} attempts`,
+        ),
+      );
+      reconnectAttempts = 0;
+      reconnectDelay = null;
+      return;
+    }
+
+    reconnectAttempts++;
+    reconnectDelay = delay;
+    onStateChange(ConnectionState.RECONNECTING);
+
+    logger.info(
+      `Scheduling reconnection attempt ${reconnectAttempts} in ${delay}ms`,
+    );
+    onReconnectAttempt?.(reconnectAttempts, delay);
+
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      openSocket().catch((error) => {
+        logger.error("Reconnection attempt failed", error);
+      });
+    }, delay);
+  };
+
+  const subscriptionError = (
+    channel: string,
+    message: string,
+    originalError?: Error,
+    code?: string | number,
+  ): KickError => {
+    const error = createError(
+      ErrorType.SUBSCRIPTION,
+      message,
+      originalError,
+      code,
+    );
+    return { ...error, context: { ...error.context, channel } };
+  };
+
+  const sendSubscribe = async (channel: string) => {
+    const currentSocket = socket!;
+    if (!isAuthenticatedChannel(channel)) {
+      subscribeChannel(currentSocket, channel);
+      return;
+    }
+
+    const authorizer = websocket?.authorizer;
+    if (!authorizer) {
+      onError(
+        subscriptionError(channel, `No authorizer configured for ${channel}`),
+      );
+      return;
+    }
+
+    try {
+      const authorization = await authorizer(socketId!, channel);
+
+      // The socket may have been replaced, or the channel dropped, meanwhile
+      if (
+        socket !== currentSocket ||
+        !subscriptions.has(channel) ||
+        !isSocketOpen()
+      ) {
+        return;
+      }
+
+      subscribeChannel(
+        currentSocket,
+        channel,
+        authorization.auth,
+        authorization.channel_data,
+      );
+    } catch (error) {
+      onError(
+        subscriptionError(
+          channel,
+          `Failed to authorize subscription to ${channel}`,
+          error instanceof Error ? error : new Error(String(error)),
+        ),
+      );
+    }
+  };
+
+  // Whether the event should be handled, given the validation mode
+  const checkPayload = (parsedMessage: ParsedMessage): boolean => {
+    if (validation === "off") {
+      return true;
+    }
+
+    const issues = validateEvent(parsedMessage.type, parsedMessage.data);
+    if (issues.length === 0) {
+      return true;
+    }
+
+    const description = `Invalid ${parsedMessage.type} payload: ${issues.join("; ")}`;
+    // Strict mode only applies to Kick events
+    if (validation === "warn" || parsedMessage.type in PROTOCOL_EVENTS) {
+      logger.warn(description);
+      return true;
+    }
+
+    const error = createError(ErrorType.VALIDATION, description);
+    error.context = {
+      ...error.context,
+      event: parsedMessage.type,
+      channel: parsedMessage.channel,
+      issues,
+    };
+    onError(error);
+    return false;
+  };
+
+  const handleMessage = (frame: string) => {
+    if (isClosed) return;
+
+    startHeartbeat();
+
+    try {
+      onFrame?.(frame);
+
+      let parsedMessage: ParsedMessage | null;
+      try {
+        parsedMessage = decodeFrame(frame, logger);
+      } catch (error) {
+        const parseError =
+          error instanceof Error ? error : new Error(String(error));
+        onParseError?.(parseError);
+        throw parseError;
+      }
+      // Validate what Kick sent before adding fields derived from it
+      if (!parsedMessage || !checkPayload(parsedMessage)) {
+        return;
+      }
+      addDerivedFields(parsedMessage);
+
+      switch (parsedMessage.type) {
+        case "PusherConnectionEstablished":
+          logger.debug("Pusher WebSocket connection established");
+          isEstablished = true;
+          socketId = parsedMessage.data.socket_id;
+          serverActivityTimeout = parsedMessage.data.activity_timeout
+            ? parsedMessage.data.activity_timeout * 1000
+            : null;
+          startHeartbeat();
+          if (isSocketOpen()) {
+            for (const channel of subscriptions) {
+              void sendSubscribe(channel);
+            }
+          }
+          break;
+
+        case "PusherSubscriptionSucceeded":
+          logger.debug(`Successfully subscribed to ${parsedMessage.channel}`);
+          break;
+
+        case "PusherPong":
+          logger.debug("Received Pusher pong");
+          if (pingSentAt !== null) {
+            onHeartbeat?.(Date.now() - pingSentAt);
+            pingSentAt = null;
+          }
+          break;
+
+        case "PusherPing":
+          logger.debug("Received Pusher ping");
+          if (isSocketOpen()) {
+            sendPusherEvent(socket!, "pusher:pong");
+          }
+          break;
+
+        case "PusherError":
+          logger.error("Pusher error:", parsedMessage.data);
+          onError(
+            createError(
+              ErrorType.WEBSOCKET,
+              `Pusher error: ${parsedMessage.data.message}`,
+              undefined,
+              parsedMessage.data.code ?? undefined,
+            ),
+          );
+          break;
+
+        case "PusherSubscriptionError":
+          onError(
+            subscriptionError(
+              parsedMessage.channel ?? "unknown",
+              `Subscription to ${parsedMessage.channel} failed: ${parsedMessage.data.error}`,
+              undefined,
+              parsedMessage.data.status,
+            ),
+          );
+          break;
+
+        default:
+          onEvent(parsedMessage);
+          break;
+      }
+    } catch (error) {
+      onError(
+        createError(
+          ErrorType.WEBSOCKET,
+          "Failed to parse WebSocket message",
+          error instanceof Error ? error : new Error(String(error)),
+        ),
+      );
+    }
+  };
+
+  const openSocket = (): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      // A socket replaced before it opened hands its caller to this one
+      const previous = pendingOpen;
+      pendingOpen = {
+        resolve: () => {
+          previous?.resolve();
+          resolve();
+        },
+        reject: (error) => {
+          previous?.reject(error);
+          reject(error);
+        },
+      };
+
+      onStateChange(
+        reconnectAttempts > 0
+          ? ConnectionState.RECONNECTING
+          : ConnectionState.CONNECTING,
+      );
+      isEstablished = false;
+      socketId = null;
+      serverActivityTimeout = null;
+      pingSentAt = null;
+
+      const currentSocket = createWebSocket({ config: websocket });
+      socket = currentSocket;
+
+      currentSocket.on("open", () => {
+        if (isClosed) {
+          logger.debug(
+            "Connection opened but client is disconnected, ignoring",
+          );
+          return;
+        }
+
+        onStateChange(ConnectionState.CONNECTED);
+        const attempt = reconnectAttempts;
+        reconnectAttempts = 0;
+        startHeartbeat();
+        onOpen();
+        if (attempt > 0) {
+          onReconnected?.(attempt, reconnectDelay ?? 0);
+        }
+        reconnectDelay = null;
+        settleOpen();
+      });
+
+      currentSocket.on("message", handleMessage);
+
+      currentSocket.on("close", () => {
+        stopHeartbeat();
+        isEstablished = false;
+        if (!isClosed) {
+          onStateChange(ConnectionState.DISCONNECTED);
+          onClose();
+          scheduleReconnect();
+        }
+      });
+
+      currentSocket.on("error", (error) => {
+        stopHeartbeat();
+        onStateChange(ConnectionState.ERROR);
+        const kickError = createError(
+          ErrorType.WEBSOCKET,
+          "WebSocket connection error",
+          error instanceof Error ? error : new Error(String(error)),
+        );
+        onSocketError(kickError);
+        settleOpen(kickError);
+      });
+    });
+  };
+
+  // Feed frames from a source through the same handling as live frames
+  const openSource = (frameSource: FrameSource): Promise<void> => {
+    onStateChange(ConnectionState.CONNECTING);
+    isReplaying = true;
+    onStateChange(ConnectionState.CONNECTED);
+    onOpen();
+
+    frameSource
+      .start(handleMessage)
+      .then(() => {
+        isReplaying = false;
+        stopHeartbeat();
+        if (!isClosed) {
+          logger.info("Frame source exhausted");
+          onStateChange(ConnectionState.DISCONNECTED);
+          onClose();
+        }
+      })
+      .catch((error) => {
+        isReplaying = false;
+        stopHeartbeat();
+        onStateChange(ConnectionState.ERROR);
+        onSocketError(
+          createError(
+            ErrorType.CONNECTION,
+            "Frame source failed",
+            error instanceof Error ? error : new Error(String(error)),
+          ),
+        );
+      });
+
+    return Promise.resolve();
+  };
+
+  // Stop reconnection attempts and close the socket without a close event
+  const dropSocket = () => {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+
+    stopHeartbeat();
+
+    if (socket) {
+      socket.removeAllListeners();
+      // A socket that hasn't opened yet can't complete a closing handshake
+      if (socket.readyState === SOCKET_OPEN) {
+        socket.close();
+      } else {
+        socket.terminate();
+      }
+      socket = null;
+    }
+
+    isEstablished = false;
+  };
+
+  const open = async (): Promise<void> => {
+    if (isOpen()) {
+      logger.debug("Already connected to WebSocket");
+      return;
+    }
+
+    isClosed = false;
+    if (source) {
+      return openSource(source);
+    }
+
+    // Replace a socket that is still connecting or waiting to reconnect
+    dropSocket();
+    return openSocket();
+  };
+
+  const close = () => {
+    isClosed = true;
+
+    if (isReplaying) {
+      isReplaying = false;
+      source?.stop();
+    }
+
+    dropSocket();
+    settleOpen(
+      createError(ErrorType.CONNECTION, "Connection closed before it opened"),
+    );
+    reconnectAttempts = 0;
+    reconnectDelay = null;
+  };
+
+  // A manual reconnect counts as an immediate first attempt
+  const reconnect = (): Promise<void> => {
+    if (source) {
+      return open();
+    }
+
+    isClosed = false;
+    dropSocket();
+    reconnectAttempts = 1;
+    reconnectDelay = 0;
+    logger.info("Reconnecting now");
+    onReconnectAttempt?.(reconnectAttempts, reconnectDelay);
+    return openSocket();
+  };
+
+  const subscribe = (channel: string) => {
+    if (subscriptions.has(channel)) {
+      return;
+    }
+
+    subscriptions.add(channel);
+    if (isSocketOpen() && isEstablished) {
+      void sendSubscribe(channel);
+    }
+  };
+
+  const unsubscribe = (channel: string) => {
+    if (!subscriptions.delete(channel)) {
+      return;
+    }
+
+    if (isSocketOpen() && isEstablished) {
+      unsubscribeChannel(socket!, channel);
+    }
+  };
+
+  return {
+    open,
+    close,
+    reconnect,
+    subscribe,
+    unsubscribe,
+    getSubscriptions: () => [...subscriptions],
+    isOpen,
+  };
+};
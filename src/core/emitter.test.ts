@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+import { createEmitter } from "./emitter";
+
+type Events = {
+  message: [text: string];
+  error: [error: Error];
+};
+
+describe("createEmitter", () => {
+  it("calls listeners in the order they were added", () => {
+    const emitter = createEmitter<Events>();
+    const calls: string[] = [];
+    emitter.on("message", (text) => calls.push(`first ${text}`));
+    emitter.on("message", (text) => calls.push(`second ${text}`));
+
+    expect(emitter.emit("message", "hi")).toBe(true);
+    expect(calls).toEqual(["first hi", "second hi"]);
+  });
+
+  it("calls once() listeners a single time", () => {
+    const emitter = createEmitter<Events>();
+    const listener = vi.fn();
+    emitter.once("message", listener);
+
+    emitter.emit("message", "a");
+    emitter.emit("message", "b");
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith("a");
+    expect(emitter.listenerCount("message")).toBe(0);
+  });
+
+  it("removes a once() listener before it fires", () => {
+    const emitter = createEmitter<Events>();
+    const listener = vi.fn();
+    emitter.once("message", listener);
+    emitter.removeListener("message", listener);
+
+    expect(emitter.emit("message", "a")).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("throws unhandled errors", () => {
+    const emitter = createEmitter<Events>();
+
+    expect(() => emitter.emit("error", new Error("boom"))).toThrow("boom");
+  });
+});
@@ -0,0 +1,125 @@
+type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+/**
+ * Map of event names to the arguments their listeners receive
+ */
+export type EventArgsMap<Events> = { [K in keyof Events]: unknown[] };
+
+/**
+ * Minimal event emitter that runs on any JavaScript runtime. Mirrors the
+ * subset of Node's EventEmitter the clients use, including throwing when an
+ * "error" event has no listener.
+ */
+export interface Emitter<Events extends EventArgsMap<Events>> {
+  on: <K extends keyof Events & string>(
+    event: K,
+    listener: Listener<Events[K]>,
+  ) => void;
+  once: <K extends keyof Events & string>(
+    event: K,
+    listener: Listener<Events[K]>,
+  ) => void;
+  removeListener: <K extends keyof Events & string>(
+    event: K,
+    listener: Listener<Events[K]>,
+  ) => void;
+  removeAllListeners: (event?: keyof Events & string) => void;
+  emit: <K extends keyof Events & string>(
+    event: K,
+    ...args: Events[K]
+  ) => boolean;
+  listenerCount: (event: keyof Events & string) => number;
+}
+
+export const createEmitter = <
+  Events extends EventArgsMap<Events>,
+>(): Emitter<Events> => {
+  type EventName = keyof Events & string;
+  type Entry<Args extends unknown[]> = {
+    listener: Listener<Args>;
+    handler: Listener<Args>;
+  };
+
+  // Each entry keeps the listener as registered, so once() wrappers can be removed
+  const listeners = new Map<EventName, Entry<never>[]>();
+
+  const entriesFor = <K extends EventName>(event: K) =>
+    listeners.get(event) as Entry<Events[K]>[] | undefined;
+
+  const add = <K extends EventName>(
+    event: K,
+    listener: Listener<Events[K]>,
+    handler: Listener<Events[K]>,
+  ) => {
+    const entries = entriesFor(event) ?? [];
+    entries.push({ listener, handler });
+    listeners.set(event, entries);
+  };
+
+  const removeListener = <K extends EventName>(
+    event: K,
+    listener: Listener<Events[K]>,
+  ) => {
+    const entries = entriesFor(event);
+    if (!entries) {
+      return;
+    }
+
+    // Like Node, remove only the most recently added matching listener
+    const index = entries.map((entry) => entry.listener).lastIndexOf(listener);
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+    if (entries.length === 0) {
+      listeners.delete(event);
+    }
+  };
+
+  const on = <K extends EventName>(event: K, listener: Listener<Events[K]>) => {
+    add(event, listener, listener);
+  };
+
+  const once = <K extends EventName>(
+    event: K,
+    listener: Listener<Events[K]>,
+  ) => {
+    const handler = (...args: Events[K]) => {
+      removeListener(event, listener);
+      listener(...args);
+    };
+    add(event, listener, handler);
+  };
+
+  const removeAllListeners = (event?: EventName) => {
+    if (event) {
+      listeners.delete(event);
+    } else {
+      listeners.clear();
+    }
+  };
+
+  const emit = <K extends EventName>(event: K, ...args: Events[K]): boolean => {
+    const entries = entriesFor(event);
+    if (!entries || entries.length === 0) {
+      if (event === "error") {
+        const [error] = args;
+        throw error instanceof Error
+          ? error
+          : new Error(
+              `Unhandled error: ${(error as { message?: string })?.message ?? String(error)}`,
+            );
+      }
+      return false;
+    }
+
+    // Copy so listeners added or removed during emit don't affect this call
+    for (const { handler } of [...entries]) {
+      handler(...args);
+    }
+    return true;
+  };
+
+  const listenerCount = (event: EventName) => entriesFor(event)?.length ?? 0;
+
+  return { on, once, removeListener, removeAllListeners, emit, listenerCount };
+};
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  getRegisteredSchema,
+  registerEventParser,
+  unregisterEventParser,
+} from "./eventRegistry";
+import { parseMessage } from "./messageHandling";
+import { validateEvent } from "./schemas";
+import { number, object } from "../utils/schema";
+
+const frame = (event: string, data: unknown) =>
+  JSON.stringify({
+    event,
+    channel: "chatrooms.668.v2",
+    data: typeof data === "string" ? data : JSON.stringify(data),
+  });
+
+describe("event parser registry", () => {
+  afterEach(() => {
+    unregisterEventParser("App\\Events\\KicksGifted");
+    unregisterEventParser("App\\Events\\ChatMessageEvent");
+  });
+
+  it("emits events without a parser as UnknownEvent", () => {
+    expect(
+      parseMessage(frame("App\\Events\\KicksGifted", { amount: 5 })),
+    ).toEqual({
+      type: "UnknownEvent",
+      data: { event: "App\\Events\\KicksGifted", data: { amount: 5 } },
+      channel: "chatrooms.668.v2",
+    });
+  });
+
+  it("keeps unknown data that isn't JSON as is", () => {
+    expect(
+      parseMessage(frame("App\\Events\\KicksGifted", "not json")),
+    ).toMatchObject({
+      type: "UnknownEvent",
+      data: { event: "App\\Events\\KicksGifted", data: "not json" },
+    });
+  });
+
+  it("parses registered events into their type", () => {
+    registerEventParser("App\\Events\\KicksGifted", {
+      type: "UnknownEvent",
+      parse: (data) => ({ event: "KicksGifted", data }),
+    });
+
+    expect(
+      parseMessage(frame("App\\Events\\KicksGifted", { amount: 5 })),
+    ).toEqual({
+      type: "UnknownEvent",
+      data: { event: "KicksGifted", data: { amount: 5 } },
+      channel: "chatrooms.668.v2",
+    });
+  });
+
+  it("passes the decoded data through without a parse function", () => {
+    registerEventParser("App\\Events\\KicksGifted", { type: "UnknownEvent" });
+
+    expect(
+      parseMessage(frame("App\\Events\\KicksGifted", { amount: 5 })),
+    ).toMatchObject({ data: { amount: 5 } });
+  });
+
+  it("prefers registered parsers over built-in ones", () => {
+    registerEventParser("App\\Events\\ChatMessageEvent", {
+      type: "UnknownEvent",
+    });
+
+    expect(
+      parseMessage(frame("App\\Events\\ChatMessageEvent", { id: "1" })),
+    ).toMatchObject({ type: "UnknownEvent", data: { id: "1" } });
+  });
+
+  it("goes back to the default handling once unregistered", () => {
+    registerEventParser("App\\Events\\KicksGifted", { type: "UnknownEvent" });
+
+    expect(unregisterEventParser("App\\Events\\KicksGifted")).toBe(true);
+    expect(unregisterEventParser("App\\Events\\KicksGifted")).toBe(false);
+    expect(
+      parseMessage(frame("App\\Events\\KicksGifted", { amount: 5 })),
+    ).toMatchObject({ data: { event: "App\\Events\\KicksGifted" } });
+  });
+
+  it("validates registered types against their schema", () => {
+    const schema = object({ amount: number() });
+    registerEventParser("App\\Events\\KicksGifted", {
+      type: "UnknownEvent",
+      schema,
+    });
+
+    expect(getRegisteredSchema("UnknownEvent")).toBe(schema);
+    expect(validateEvent("UnknownEvent", { amount: "5" })).toEqual([
+      "amount: expected number, got string",
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import type { KickEventMap } from "../types/events";
+import type { Schema } from "../utils/schema";
+
+/**
+ * How to turn a Pusher event Kick added after this release into a typed event
+ */
+export interface EventParserDefinition<K extends keyof KickEventMap> {
+  /** Type name listeners subscribe to; add it to KickEventMap by augmentation */
+  type: K;
+  /** Build the payload from the frame's decoded data (default: the data as is) */
+  parse?: (data: unknown) => KickEventMap[K];
+  /** Schema used when validation is enabled */
+  schema?: Schema;
+}
+
+interface RegisteredParser {
+  type: keyof KickEventMap;
+  parse: (data: unknown) => unknown;
+  schema?: Schema;
+}
+
+const parsers = new Map<string, RegisteredParser>();
+
+/**
+ * Parse a Pusher event name the library doesn't know, e.g.
+ * "App\\Events\\KicksGifted", into a typed event. Registrations apply to
+ * every client in the process and take precedence over built-in parsers.
+ * @param eventName Pusher event name as sent by Kick
+ * @param definition Event type, payload parser and optional schema
+ */
+export const registerEventParser = <K extends keyof KickEventMap>(
+  eventName: string,
+  {
+    type,
+    parse = (data) => data as KickEventMap[K],
+    schema,
+  }: EventParserDefinition<K>,
+): void => {
+  parsers.set(eventName, { type, parse, schema });
+};
+
+/**
+ * Remove a parser added with registerEventParser
+ * @returns Whether a parser was registered for the name
+ */
+export const unregisterEventParser = (eventName: string): boolean => {
+  return parsers.delete(eventName);
+};
+
+export const getEventParser = (
+  eventName: string,
+): RegisteredParser | undefined => parsers.get(eventName);
+
+/**
+ * Schema registered for a parsed event type, if any
+ */
+export const getRegisteredSchema = (type: string): Schema | undefined => {
+  for (const parser of parsers.values()) {
+    if (parser.type === type && parser.schema) {
+      return parser.schema;
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,66 @@
+import type { EventArgsMap, Emitter } from "./emitter";
+
+type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+/**
+ * Tracks listeners registered on an emitter so they can be removed
+ * individually or all at once during cleanup
+ * @param emitter Emitter the listeners are registered on
+ * @returns Functions typed against the map of event names to listener arguments
+ */
+export const createListenerRegistry = <Events extends EventArgsMap<Events>>(
+  emitter: Emitter<Events>,
+) => {
+  type EventName = keyof Events & string;
+
+  const listeners = new Map<EventName, Set<Listener<never>>>();
+  const onceListeners = new Map<EventName, Set<Listener<never>>>();
+
+  const addListener = <K extends EventName>(
+    event: K,
+    listener: Listener<Events[K]>,
+    once = false,
+  ) => {
+    const targetMap = once ? onceListeners : listeners;
+    if (!targetMap.has(event)) {
+      targetMap.set(event, new Set());
+    }
+    targetMap.get(event)!.add(listener);
+
+    if (once) {
+      const wrappedListener = (...args: Events[K]) => {
+        removeListener(event, listener);
+        listener(...args);
+      };
+      emitter.once(event, wrappedListener);
+    } else {
+      emitter.on(event, listener);
+    }
+  };
+
+  const removeListener = <K extends EventName>(
+    event: K,
+    listener: Listener<Events[K]>,
+  ) => {
+    // Remove from tracking
+    listeners.get(event)?.delete(listener);
+    onceListeners.get(event)?.delete(listener);
+
+    // Remove from the emitter
+    emitter.removeListener(event, listener);
+  };
+
+  const removeAllListeners = (event?: EventName) => {
+    if (event) {
+      listeners.get(event)?.clear();
+      onceListeners.get(event)?.clear();
+      emitter.removeAllListeners(event);
+    } else {
+      listeners.clear();
+      onceListeners.clear();
+      emitter.removeAllListeners();
+    }
+  };
+
+  return { addListener, removeListener, removeAllListeners };
+};
@@ -1,15 +1,28 @@
 import type {
   MessageEvent,
-  ChatMessage,
+  MessageData,
   Subscription,
   GiftedSubscriptionsEvent,
   StreamHostEvent,
   UserBannedEvent,
   UserUnbannedEvent,
   PinnedMessageCreatedEvent,
+  ChatroomUpdatedEvent,
+  PollUpdateEvent,
+  PollDeleteEvent,
   MessageDeletedEvent,
+  ParsedMessage,
+  StreamStartedEvent,
+  StreamEndedEvent,
+  LivestreamUpdatedEvent,
+  FollowersUpdatedEvent,
+  PusherConnectionEstablishedEvent,
+  PusherErrorEvent,
+  PusherSubscriptionErrorEvent,
 } from "../types/events";
 import { parseJSON } from "../utils/utils";
+import { tokenize } from "../utils/tokens";
+import { getEventParser } from "./eventRegistry";
 import type { Logger } from "../types/client";
 
 // Default no-op logger for when no logger is provided
@@ -20,88 +33,207 @@ const defaultLogger: Logger = {
   error: () => {},
 };
 
-export const parseMessage = (message: string, logger: Logger = defaultLogger) => {
+// Pusher sends some protocol event data as objects rather than JSON strings
+const parsePusherData = <T>(data: unknown): T =>
+  typeof data === "string" ? parseJSON<T>(data) : (data as T);
+
+// Decode data of events we know nothing about, keeping it as is if it isn't JSON
+const decodeUnknownData = (data: unknown): unknown => {
   try {
-    const messageEventJSON = parseJSON<MessageEvent>(message);
+    return parsePusherData(data);
+  } catch {
+    return data;
+  }
+};
 
-    // switch event type
-    switch (messageEventJSON.event) {
-      case "App\\Events\\ChatMessageEvent": {
-        const data = parseJSON<ChatMessage>(messageEventJSON.data);
-        return { type: "ChatMessage", data };
-      }
-      case "App\\Events\\SubscriptionEvent": {
-        const data = parseJSON<Subscription>(messageEventJSON.data);
-        return { type: "Subscription", data };
-      }
-      case "App\\Events\\GiftedSubscriptionsEvent": {
-        const data = parseJSON<GiftedSubscriptionsEvent>(messageEventJSON.data);
-        return { type: "GiftedSubscriptions", data };
-      }
-      case "App\\Events\\StreamHostEvent": {
-        const data = parseJSON<StreamHostEvent>(messageEventJSON.data);
-        return { type: "StreamHost", data };
-      }
-      case "App\\Events\\MessageDeletedEvent": {
-        const data = parseJSON<MessageDeletedEvent>(messageEventJSON.data);
-        return { type: "MessageDeleted", data };
-      }
-      case "App\\Events\\UserBannedEvent": {
-        const data = parseJSON<UserBannedEvent>(messageEventJSON.data);
-        return { type: "UserBanned", data };
-      }
-      case "App\\Events\\UserUnbannedEvent": {
-        const data = parseJSON<UserUnbannedEvent>(messageEventJSON.data);
-        return { type: "UserUnbanned", data };
-      }
-      case "App\\Events\\PinnedMessageCreatedEvent": {
-        const data = parseJSON<PinnedMessageCreatedEvent>(
-          messageEventJSON.data,
-        );
-        return { type: "PinnedMessageCreated", data };
-      }
-      case "App\\Events\\PinnedMessageDeletedEvent": {
-        const data = parseJSON<MessageDeletedEvent>(messageEventJSON.data);
-        return { type: "PinnedMessageDeleted", data };
-      }
-      case "App\\Events\\PollUpdateEvent": {
-        const data = parseJSON(messageEventJSON.data);
-        return { type: "PollUpdate", data };
-      }
-      case "App\\Events\\PollDeleteEvent": {
-        const data = parseJSON(messageEventJSON.data);
-        return { type: "PollDelete", data };
-      }
+const parseEvent = (
+  messageEventJSON: MessageEvent,
+  logger: Logger,
+): ParsedMessage | null => {
+  const registered = getEventParser(messageEventJSON.event);
+  if (registered) {
+    return {
+      type: registered.type,
+      data: registered.parse(parsePusherData(messageEventJSON.data)),
+    } as ParsedMessage;
+  }
 
-      // Pusher protocol events (not chat events)
-      case "pusher:connection_established": {
-        logger.debug("Pusher connection established");
-        return { type: "PusherConnectionEstablished", data: parseJSON(messageEventJSON.data) };
-      }
-      case "pusher_internal:subscription_succeeded": {
-        logger.debug("Pusher subscription succeeded");
-        return { type: "PusherSubscriptionSucceeded", data: parseJSON(messageEventJSON.data) };
-      }
-      case "pusher:pong": {
-        logger.debug("Pusher pong received");
-        return { type: "PusherPong", data: parseJSON(messageEventJSON.data) };
-      }
-      case "pusher:ping": {
-        logger.debug("Pusher ping received");
-        return { type: "PusherPing", data: parseJSON(messageEventJSON.data) };
-      }
-      case "pusher:error": {
-        logger.warn("Pusher error:", messageEventJSON.data);
-        return { type: "PusherError", data: parseJSON(messageEventJSON.data) };
-      }
+  // switch event type
+  switch (messageEventJSON.event) {
+    case "App\\Events\\ChatMessageEvent": {
+      // Tokens are added by addDerivedFields once the payload is checked
+      const data = parseJSON<MessageData>(messageEventJSON.data);
+      return { type: "ChatMessage", data };
+    }
+    case "App\\Events\\SubscriptionEvent": {
+      const data = parseJSON<Subscription>(messageEventJSON.data);
+      return { type: "Subscription", data };
+    }
+    case "App\\Events\\GiftedSubscriptionsEvent": {
+      const data = parseJSON<GiftedSubscriptionsEvent>(messageEventJSON.data);
+      return { type: "GiftedSubscriptions", data };
+    }
+    case "App\\Events\\StreamHostEvent": {
+      const data = parseJSON<StreamHostEvent>(messageEventJSON.data);
+      return { type: "StreamHost", data };
+    }
+    case "App\\Events\\MessageDeletedEvent": {
+      const data = parseJSON<MessageDeletedEvent>(messageEventJSON.data);
+      return { type: "MessageDeleted", data };
+    }
+    case "App\\Events\\UserBannedEvent": {
+      const data = parseJSON<UserBannedEvent>(messageEventJSON.data);
+      return { type: "UserBanned", data };
+    }
+    case "App\\Events\\UserUnbannedEvent": {
+      const data = parseJSON<UserUnbannedEvent>(messageEventJSON.data);
+      return { type: "UserUnbanned", data };
+    }
+    case "App\\Events\\PinnedMessageCreatedEvent": {
+      const data = parseJSON<PinnedMessageCreatedEvent>(messageEventJSON.data);
+      return { type: "PinnedMessageCreated", data };
+    }
+    case "App\\Events\\PinnedMessageDeletedEvent": {
+      const data = parseJSON<MessageDeletedEvent>(messageEventJSON.data);
+      return { type: "PinnedMessageDeleted", data };
+    }
+    case "App\\Events\\ChatroomUpdatedEvent": {
+      const data = parseJSON<ChatroomUpdatedEvent>(messageEventJSON.data);
+      return { type: "ChatroomUpdated", data };
+    }
+    case "App\\Events\\PollUpdateEvent": {
+      const data = parseJSON<PollUpdateEvent>(messageEventJSON.data);
+      return { type: "PollUpdate", data };
+    }
+    case "App\\Events\\PollDeleteEvent": {
+      const data = parseJSON<PollDeleteEvent>(messageEventJSON.data);
+      return { type: "PollDelete", data };
+    }
 
-      default: {
-        logger.debug("Unknown event type:", messageEventJSON.event);
-        return null;
-      }
+    // Channel feed events (channel.{id})
+    case "App\\Events\\StreamerIsLive": {
+      const data = parseJSON<StreamStartedEvent>(messageEventJSON.data);
+      return { type: "StreamStarted", data };
+    }
+    case "App\\Events\\StopStreamBroadcast": {
+      const data = parseJSON<StreamEndedEvent>(messageEventJSON.data);
+      return { type: "StreamEnded", data };
+    }
+    case "App\\Events\\LivestreamUpdated": {
+      const data = parseJSON<LivestreamUpdatedEvent>(messageEventJSON.data);
+      return { type: "LivestreamUpdated", data };
+    }
+    case "App\\Events\\FollowersUpdated": {
+      const data = parseJSON<FollowersUpdatedEvent>(messageEventJSON.data);
+      return { type: "FollowersUpdated", data };
     }
 
-    return null;
+    // Pusher protocol events (not chat events)
+    case "pusher:connection_established": {
+      logger.debug("Pusher connection established");
+      return {
+        type: "PusherConnectionEstablished",
+        data: parsePusherData<PusherConnectionEstablishedEvent>(
+          messageEventJSON.data,
+        ),
+      };
+    }
+    case "pusher_internal:subscription_succeeded": {
+      logger.debug("Pusher subscription succeeded");
+      return {
+        type: "PusherSubscriptionSucceeded",
+        data: parsePusherData(messageEventJSON.data),
+      };
+    }
+    case "pusher:pong": {
+      logger.debug("Pusher pong received");
+      return {
+        type: "PusherPong",
+        data: parsePusherData(messageEventJSON.data),
+      };
+    }
+    case "pusher:ping": {
+      logger.debug("Pusher ping received");
+      return {
+        type: "PusherPing",
+        data: parsePusherData(messageEventJSON.data),
+      };
+    }
+    case "pusher:error": {
+      logger.warn("Pusher error:", messageEventJSON.data);
+      return {
+        type: "PusherError",
+        data: parsePusherData<PusherErrorEvent>(messageEventJSON.data),
+      };
+    }
+    case "pusher:subscription_error": {
+      logger.warn("Pusher subscription error:", messageEventJSON.data);
+      return {
+        type: "PusherSubscriptionError",
+        data: parsePusherData<PusherSubscriptionErrorEvent>(
+          messageEventJSON.data,
+        ),
+      };
+    }
+
+    default: {
+      logger.debug("Unknown event type:", messageEventJSON.event);
+      return {
+        type: "UnknownEvent",
+        data: {
+          event: messageEventJSON.event,
+          data: decodeUnknownData(messageEventJSON.data),
+        },
+      };
+    }
+  }
+};
+
+/**
+ * Decode a raw frame without the fields derived from its payload, throwing
+ * if it is malformed
+ * @returns The decoded event; events nobody registered a parser for come back as UnknownEvent
+ */
+export const decodeFrame = (
+  message: string,
+  logger: Logger = defaultLogger,
+): ParsedMessage | null => {
+  const messageEventJSON = parseJSON<MessageEvent>(message);
+
+  const parsed = parseEvent(messageEventJSON, logger);
+  return parsed && { ...parsed, channel: messageEventJSON.channel };
+};
+
+/**
+ * Add fields computed from a decoded payload, such as chat message tokens.
+ * Tolerates payloads that don't match their schema.
+ */
+export const addDerivedFields = (parsed: ParsedMessage): ParsedMessage => {
+  if (parsed.type === "ChatMessage") {
+    const { content } = parsed.data;
+    parsed.data.tokens = tokenize(typeof content === "string" ? content : "");
+  }
+  return parsed;
+};
+
+/**
+ * Parse a raw frame, throwing if it is malformed
+ * @returns The parsed event; events nobody registered a parser for come back as UnknownEvent
+ */
+export const parseFrame = (
+  message: string,
+  logger: Logger = defaultLogger,
+): ParsedMessage | null => {
+  const parsed = decodeFrame(message, logger);
+  return parsed && addDerivedFields(parsed);
+};
+
+export const parseMessage = (
+  message: string,
+  logger: Logger = defaultLogger,
+): ParsedMessage | null => {
+  try {
+    return parseFrame(message, logger);
   } catch (error) {
     logger.error("Error parsing message:", error);
     return null;
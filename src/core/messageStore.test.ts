@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { createMessageStore, trackMessage } from "./messageStore";
+import type { MessageData } from "../types/events";
+
+let nextSecond = 0;
+
+const message = (
+  id: string,
+  {
+    chatroomId = 1,
+    userId = 1,
+    username = `user${userId}`,
+    replyTo,
+  }: {
+    chatroomId?: number;
+    userId?: number;
+    username?: string;
+    replyTo?: string;
+  } = {},
+): MessageData => ({
+  id,
+  chatroom_id: chatroomId,
+  content: id,
+  type: replyTo ? "reply" : "message",
+  created_at: new Date(Date.UTC(2024, 0, 1, 0, 0, nextSecond++)).toISOString(),
+  sender: {
+    id: userId,
+    username,
+    slug: username.toLowerCase(),
+    identity: { color: "#ffffff", badges: [] },
+  },
+  ...(replyTo && {
+    metadata: {
+      original_sender: { id: "1", username: "user1" },
+      original_message: { id: replyTo, content: replyTo },
+    },
+  }),
+  tokens: [],
+});
+
+const ids = (stored: { message: MessageData }[]) =>
+  stored.map(({ message }) => message.id);
+
+describe("createMessageStore", () => {
+  it("evicts a chatroom's oldest messages once it is full", () => {
+    const store = createMessageStore({ maxMessages: 2 });
+    store.add(message("a"));
+    store.add(message("b"));
+    store.add(message("other", { chatroomId: 2 }));
+    store.add(message("c"));
+
+    expect(ids(store.getMessages(1))).toEqual(["b", "c"]);
+    expect(ids(store.getMessages(2))).toEqual(["other"]);
+    expect(store.get("a")).toBeUndefined();
+    expect(store.size()).toBe(3);
+  });
+
+  it("removes evicted messages from the user and reply indexes", () => {
+    const store = createMessageStore({ maxMessages: 1 });
+    store.add(message("a", { userId: 7 }));
+    store.add(message("b", { replyTo: "a" }));
+    store.add(message("c"));
+
+    expect(store.getByUser(7)).toEqual([]);
+    expect(store.getReplies("a")).toEqual([]);
+  });
+
+  it("replaces a message stored again under the same id", () => {
+    const store = createMessageStore({ maxMessages: 2 });
+    store.add(message("a"));
+    store.add(message("b"));
+    store.add({ ...message("a"), content: "edited" });
+
+    expect(ids(store.getMessages(1))).toEqual(["b", "a"]);
+    expect(store.get("a")?.message.content).toBe("edited");
+  });
+
+  it("looks messages up by user id or username", () => {
+    const store = createMessageStore();
+    store.add(message("a", { userId: 1, username: "XQC" }));
+    store.add(message("b", { userId: 2 }));
+    store.add(message("c", { userId: 1, username: "XQC", chatroomId: 2 }));
+
+    expect(ids(store.getByUser(1))).toEqual(["a", "c"]);
+    expect(ids(store.getByUser("xqc"))).toEqual(["a", "c"]);
+    expect(ids(store.getByUser("xqc", 2))).toEqual(["c"]);
+  });
+
+  it("collects a whole thread from any message in it", () => {
+    const store = createMessageStore();
+    store.add(message("root"));
+    store.add(message("reply1", { replyTo: "root" }));
+    store.add(message("unrelated"));
+    store.add(message("nested", { replyTo: "reply1" }));
+    store.add(message("reply2", { replyTo: "root" }));
+
+    expect(ids(store.getReplies("root"))).toEqual(["reply1", "reply2"]);
+    expect(ids(store.getThread("nested"))).toEqual([
+      "root",
+      "reply1",
+      "nested",
+      "reply2",
+    ]);
+  });
+
+  it("starts threads at the oldest ancestor still stored", () => {
+    const store = createMessageStore({ maxMessages: 2 });
+    store.add(message("root"));
+    store.add(message("reply", { replyTo: "root" }));
+    store.add(message("nested", { replyTo: "reply" }));
+
+    expect(ids(store.getThread("nested"))).toEqual(["reply", "nested"]);
+  });
+
+  it("doesn't loop on reply cycles", () => {
+    const store = createMessageStore();
+    store.add(message("a", { replyTo: "b" }));
+    store.add(message("b", { replyTo: "a" }));
+
+    expect(ids(store.getThread("a"))).toEqual(["a", "b"]);
+  });
+
+  it("clears one chatroom or everything", () => {
+    const store = createMessageStore();
+    store.add(message("a", { chatroomId: 1 }));
+    store.add(message("b", { chatroomId: 2 }));
+
+    store.clear(1);
+    expect(store.size()).toBe(1);
+    store.clear();
+    expect(store.size()).toBe(0);
+  });
+});
+
+describe("trackMessage", () => {
+  const context = { channel: null, state: {} };
+
+  it("marks stored messages deleted once and reports the deletion", () => {
+    const store = createMessageStore();
+    const chat = message("a");
+    trackMessage(store, { ...context, type: "ChatMessage", data: chat });
+
+    const deletion = { id: "deletion-1", message: { id: "a" } };
+    const deletionContext = {
+      ...context,
+      type: "MessageDeleted" as const,
+      data: deletion,
+    };
+
+    expect(trackMessage(store, deletionContext)).toEqual({
+      message: chat,
+      deletion,
+    });
+    expect(store.get("a")).toMatchObject({ deleted: true });
+    expect(store.get("a")?.deletedAt).toBeInstanceOf(Date);
+    expect(trackMessage(store, deletionContext)).toBeNull();
+  });
+
+  it("ignores deletions of messages it never saw", () => {
+    const store = createMessageStore();
+    expect(
+      trackMessage(store, {
+        ...context,
+        type: "MessageDeleted",
+        data: { id: "deletion-1", message: { id: "missing" } },
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import type { MessageData } from "../types/events";
+import type { MiddlewareContext } from "../types/middleware";
+import type {
+  ChatMessageDeletedEvent,
+  MessageStore,
+  MessageStoreOptions,
+  StoredMessage,
+} from "../types/store";
+
+const DEFAULT_MAX_MESSAGES = 500;
+
+/**
+ * Create a bounded in-memory store of chat messages, kept per chatroom
+ * @param options Per-chatroom capacity
+ * @returns Store indexed by message id, user and reply parent
+ */
+export const createMessageStore = ({
+  maxMessages = DEFAULT_MAX_MESSAGES,
+}: MessageStoreOptions = {}): MessageStore => {
+  const messages = new Map<string, StoredMessage>();
+  // Message ids in arrival order, per chatroom
+  const chatrooms = new Map<number, Set<string>>();
+  const byUser = new Map<number, Set<string>>();
+  const replies = new Map<string, Set<string>>();
+
+  const addToIndex = <K>(index: Map<K, Set<string>>, key: K, id: string) => {
+    let ids = index.get(key);
+    if (!ids) {
+      ids = new Set();
+      index.set(key, ids);
+    }
+    ids.add(id);
+  };
+
+  const removeFromIndex = <K>(
+    index: Map<K, Set<string>>,
+    key: K,
+    id: string,
+  ) => {
+    const ids = index.get(key);
+    ids?.delete(id);
+    if (ids?.size === 0) {
+      index.delete(key);
+    }
+  };
+
+  const resolve = (ids: Iterable<string> | undefined): StoredMessage[] =>
+    [...(ids ?? [])]
+      .map((id) => messages.get(id))
+      .filter((stored): stored is StoredMessage => stored !== undefined);
+
+  const remove = (id: string) => {
+    const stored = messages.get(id);
+    if (!stored) {
+      return;
+    }
+
+    messages.delete(id);
+    removeFromIndex(chatrooms, stored.message.chatroom_id, id);
+    removeFromIndex(byUser, stored.message.sender.id, id);
+    if (stored.replyTo) {
+      removeFromIndex(replies, stored.replyTo, id);
+    }
+  };
+
+  const add = (message: MessageData): StoredMessage => {
+    remove(message.id);
+
+    const stored: StoredMessage = {
+      message,
+      replyTo: message.metadata?.original_message?.id,
+      deleted: false,
+    };
+    messages.set(message.id, stored);
+    addToIndex(chatrooms, message.chatroom_id, message.id);
+    addToIndex(byUser, message.sender.id, message.id);
+    if (stored.replyTo) {
+      addToIndex(replies, stored.replyTo, message.id);
+    }
+
+    const chatroom = chatrooms.get(message.chatroom_id)!;
+    while (chatroom.size > maxMessages) {
+      remove(chatroom.values().next().value!);
+    }
+
+    return stored;
+  };
+
+  const getByUser = (user: number | string, chatroomId?: number) => {
+    let found: StoredMessage[];
+    if (typeof user === "number") {
+      found = resolve(byUser.get(user));
+    } else {
+      const username = user.toLowerCase();
+      found = [...messages.values()].filter(
+        ({ message }) => message.sender.username.toLowerCase() === username,
+      );
+    }
+
+    return chatroomId === undefined
+      ? found
+      : found.filter(({ message }) => message.chatroom_id === chatroomId);
+  };
+
+  const getReplies = (id: string) => resolve(replies.get(id));
+
+  const getThread = (id: string) => {
+    // Walk up to the oldest stored ancestor, guarding against cycles
+    let rootId = id;
+    const seen = new Set<string>([id]);
+    let parentId = messages.get(id)?.replyTo;
+    while (parentId && messages.has(parentId) && !seen.has(parentId)) {
+      seen.add(parentId);
+      rootId = parentId;
+      parentId = messages.get(parentId)?.replyTo;
+    }
+
+    const thread: StoredMessage[] = [];
+    const visited = new Set<string>();
+    const collect = (messageId: string) => {
+      if (visited.has(messageId)) {
+        return;
+      }
+      visited.add(messageId);
+
+      const stored = messages.get(messageId);
+      if (stored) {
+        thread.push(stored);
+      }
+      replies.get(messageId)?.forEach(collect);
+    };
+    collect(rootId);
+
+    return thread.sort(
+      (a, b) =>
+        Date.parse(a.message.created_at) - Date.parse(b.message.created_at),
+    );
+  };
+
+  const markDeleted = (id: string) => {
+    const stored = messages.get(id);
+    if (stored && !stored.deleted) {
+      stored.deleted = true;
+      stored.deletedAt = new Date();
+    }
+    return stored;
+  };
+
+  const clear = (chatroomId?: number) => {
+    if (chatroomId === undefined) {
+      messages.clear();
+      chatrooms.clear();
+      byUser.clear();
+      replies.clear();
+      return;
+    }
+
+    [...(chatrooms.get(chatroomId) ?? [])].forEach(remove);
+  };
+
+  return {
+    add,
+    get: (id) => messages.get(id),
+    getByUser,
+    getReplies,
+    getThread,
+    getMessages: (chatroomId) => resolve(chatrooms.get(chatroomId)),
+    markDeleted,
+    clear,
+    size: () => messages.size,
+  };
+};
+
+/**
+ * Store chat messages and mark deletions as events are delivered
+ * @returns The deletion event to emit, when a stored message was just deleted
+ */
+export const trackMessage = (
+  store: MessageStore,
+  context: MiddlewareContext,
+): ChatMessageDeletedEvent | null => {
+  if (context.type === "ChatMessage") {
+    store.add(context.data);
+  } else if (context.type === "MessageDeleted") {
+    const stored = store.get(context.data.message.id);
+    if (stored && !stored.deleted) {
+      store.markDeleted(stored.message.id);
+      return { message: stored.message, deletion: context.data };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  createClientMetrics,
+  createPrometheusRegistry,
+  METRICS,
+} from "./metrics";
+
+describe("createPrometheusRegistry", () => {
+  it("renders counters with HELP and TYPE lines", () => {
+    const registry = createPrometheusRegistry();
+    registry.increment(METRICS.eventsReceived, { event: "ChatMessage" });
+    registry.increment(METRICS.eventsReceived, { event: "ChatMessage" });
+    registry.increment(METRICS.eventsReceived, { event: "UserBanned" }, 3);
+
+    expect(registry.metrics()).toBe(
+      [
+        "# HELP kick_events_received_total Kick events received, by event type",
+        "# TYPE kick_events_received_total counter",
+        'kick_events_received_total{event="ChatMessage"} 2',
+        'kick_events_received_total{event="UserBanned"} 3',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("treats label sets in any order as one series", () => {
+    const registry = createPrometheusRegistry();
+    registry.increment("requests", { a: "1", b: "2" });
+    registry.increment("requests", { b: "2", a: "1" });
+
+    expect(registry.metrics()).toContain('requests{a="1",b="2"} 2\n');
+  });
+
+  it("escapes label values", () => {
+    const registry = createPrometheusRegistry();
+    registry.increment("requests", { channel: 'a\\b"c\nd' });
+
+    expect(registry.metrics()).toContain(
+      'requests{channel="a\\\\b\\"c\\nd"} 1',
+    );
+  });
+
+  it("renders histograms with cumulative buckets, sum and count", () => {
+    const registry = createPrometheusRegistry({ buckets: [1, 0.1] });
+    registry.observe(METRICS.heartbeatRtt, 0.05, { channel: "xqc" });
+    registry.observe(METRICS.heartbeatRtt, 0.5, { channel: "xqc" });
+    registry.observe(METRICS.heartbeatRtt, 2, { channel: "xqc" });
+
+    expect(registry.metrics()).toBe(
+      [
+        "# HELP kick_heartbeat_rtt_seconds Round-trip time of Pusher pings",
+        "# TYPE kick_heartbeat_rtt_seconds histogram",
+        'kick_heartbeat_rtt_seconds_bucket{channel="xqc",le="0.1"} 1',
+        'kick_heartbeat_rtt_seconds_bucket{channel="xqc",le="1"} 2',
+        'kick_heartbeat_rtt_seconds_bucket{channel="xqc",le="+Inf"} 3',
+        'kick_heartbeat_rtt_seconds_sum{channel="xqc"} 2.55',
+        'kick_heartbeat_rtt_seconds_count{channel="xqc"} 3',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("reads gauges when rendering and drops them once unregistered", () => {
+    const registry = createPrometheusRegistry({ prefix: "bot_" });
+    let value = NaN;
+    const unregister = registry.gauge(METRICS.lastMessageAge, () => value, {
+      channel: "xqc",
+    });
+
+    expect(registry.metrics()).toContain(
+      'bot_kick_last_message_age_seconds{channel="xqc"} NaN',
+    );
+    value = 1.5;
+    expect(registry.metrics()).toContain(
+      "# TYPE bot_kick_last_message_age_seconds gauge\n" +
+        'bot_kick_last_message_age_seconds{channel="xqc"} 1.5',
+    );
+
+    unregister();
+    expect(registry.metrics()).toBe("");
+  });
+
+  it("forgets everything on reset", () => {
+    const registry = createPrometheusRegistry();
+    registry.increment("requests");
+    registry.gauge("up", () => 1);
+    registry.reset();
+
+    expect(registry.metrics()).toBe("");
+  });
+});
+
+describe("createClientMetrics", () => {
+  it("labels every metric with the client's labels", () => {
+    const registry = createPrometheusRegistry();
+    const metrics = createClientMetrics(registry, { channel: "xqc" });
+    metrics.eventReceived("ChatMessage");
+    metrics.parseFailure();
+    metrics.stateTransition("connecting", "connected");
+
+    const output = registry.metrics();
+    expect(output).toContain(
+      'kick_events_received_total{channel="xqc",event="ChatMessage"} 1',
+    );
+    expect(output).toContain('kick_parse_failures_total{channel="xqc"} 1');
+    expect(output).toContain(
+      'kick_connection_state_transitions_total{channel="xqc",from="connecting",to="connected"} 1',
+    );
+  });
+
+  it("registers the last message gauge once per start", () => {
+    const registry = createPrometheusRegistry();
+    const metrics = createClientMetrics(registry);
+    metrics.start();
+    metrics.start();
+
+    expect(
+      registry.metrics().match(/^kick_last_message_age_seconds /gm),
+    ).toHaveLength(1);
+    metrics.stop();
+    expect(registry.metrics()).toBe("");
+  });
+
+  it("does nothing without a sink", () => {
+    const metrics = createClientMetrics(undefined);
+    expect(() => {
+      metrics.start();
+      metrics.eventReceived("ChatMessage");
+      metrics.heartbeat(20);
+      metrics.stop();
+    }).not.toThrow();
+  });
+});
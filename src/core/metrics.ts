@@ -0,0 +1,345 @@
+import type {
+  MetricLabels,
+  MetricsSink,
+  OpenTelemetryMeter,
+  OpenTelemetryObservableCallback,
+  PrometheusRegistry,
+  PrometheusRegistryOptions,
+} from "../types/metrics";
+
+/**
+ * Names of the metrics clients report
+ */
+export const METRICS = {
+  eventsReceived: "kick_events_received_total",
+  parseFailures: "kick_parse_failures_total",
+  reconnectAttempts: "kick_reconnect_attempts_total",
+  stateTransitions: "kick_connection_state_transitions_total",
+  heartbeatRtt: "kick_heartbeat_rtt_seconds",
+  lastMessageAge: "kick_last_message_age_seconds",
+} as const;
+
+const METRIC_HELP: Record<string, string> = {
+  [METRICS.eventsReceived]: "Kick events received, by event type",
+  [METRICS.parseFailures]: "Frames that could not be parsed",
+  [METRICS.reconnectAttempts]: "Reconnection attempts scheduled",
+  [METRICS.stateTransitions]: "Connection state transitions",
+  [METRICS.heartbeatRtt]: "Round-trip time of Pusher pings",
+  [METRICS.lastMessageAge]:
+    "Seconds since the last chat message, NaN before the first",
+};
+
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * Report a client's metrics to a sink, labelled with `labels`. Every method
+ * is a no-op without a sink.
+ */
+export const createClientMetrics = (
+  sink: MetricsSink | undefined,
+  labels: MetricLabels = {},
+) => {
+  let lastMessageAt: number | null = null;
+  let unregisterGauge: (() => void) | null = null;
+
+  return {
+    /** Start reporting gauges; safe to call on every connect */
+    start: () => {
+      if (!sink || unregisterGauge) {
+        return;
+      }
+      unregisterGauge = sink.gauge(
+        METRICS.lastMessageAge,
+        () =>
+          lastMessageAt === null ? NaN : (Date.now() - lastMessageAt) / 1000,
+        labels,
+      );
+    },
+    /** Stop reporting gauges */
+    stop: () => {
+      unregisterGauge?.();
+      unregisterGauge = null;
+    },
+    eventReceived: (event: string, extraLabels: MetricLabels = {}) => {
+      if (event === "ChatMessage") {
+        lastMessageAt = Date.now();
+      }
+      sink?.increment(METRICS.eventsReceived, {
+        ...labels,
+        ...extraLabels,
+        event,
+      });
+    },
+    parseFailure: () => {
+      sink?.increment(METRICS.parseFailures, labels);
+    },
+    reconnectAttempt: () => {
+      sink?.increment(METRICS.reconnectAttempts, labels);
+    },
+    stateTransition: (from: string, to: string) => {
+      sink?.increment(METRICS.stateTransitions, { ...labels, from, to });
+    },
+    heartbeat: (rttMs: number) => {
+      sink?.observe(METRICS.heartbeatRtt, rttMs / 1000, labels);
+    },
+  };
+};
+
+export type ClientMetrics = ReturnType<typeof createClientMetrics>;
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: MetricLabels) => {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+const formatValue = (value: number) => {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+};
+
+// Labels sorted by name, so the same set always maps to the same series
+const seriesKey = (labels: MetricLabels) =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+interface Histogram {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+interface Family {
+  type: "counter" | "histogram";
+  series: Map<
+    string,
+    { labels: MetricLabels; value: number; histogram?: Histogram }
+  >;
+}
+
+/**
+ * Create a sink that keeps metrics in memory and renders them in the
+ * Prometheus text exposition format, for serving from a /metrics endpoint
+ * @param options Name prefix and histogram buckets
+ * @returns Registry to pass as ClientOptions.metrics
+ */
+export const createPrometheusRegistry = ({
+  prefix = "",
+  buckets = DEFAULT_BUCKETS,
+}: PrometheusRegistryOptions = {}): PrometheusRegistry => {
+  const sortedBuckets = [...buckets].sort((a, b) => a - b);
+  const families = new Map<string, Family>();
+  const gauges = new Map<
+    string,
+    Set<{ labels: MetricLabels; read: () => number }>
+  >();
+
+  const seriesFor = (
+    name: string,
+    type: Family["type"],
+    labels: MetricLabels,
+  ) => {
+    let family = families.get(name);
+    if (!family) {
+      family = { type, series: new Map() };
+      families.set(name, family);
+    }
+
+    const key = seriesKey(labels);
+    let series = family.series.get(key);
+    if (!series) {
+      series = { labels, value: 0 };
+      if (type === "histogram") {
+        series.histogram = {
+          counts: sortedBuckets.map(() => 0),
+          sum: 0,
+          count: 0,
+        };
+      }
+      family.series.set(key, series);
+    }
+    return series;
+  };
+
+  const increment = (name: string, labels: MetricLabels = {}, value = 1) => {
+    seriesFor(name, "counter", labels).value += value;
+  };
+
+  const observe = (name: string, value: number, labels: MetricLabels = {}) => {
+    const histogram = seriesFor(name, "histogram", labels).histogram!;
+    sortedBuckets.forEach((bound, index) => {
+      if (value <= bound) {
+        histogram.counts[index]!++;
+      }
+    });
+    histogram.sum += value;
+    histogram.count++;
+  };
+
+  const gauge = (
+    name: string,
+    read: () => number,
+    labels: MetricLabels = {},
+  ) => {
+    const readers = gauges.get(name) ?? new Set();
+    gauges.set(name, readers);
+    const reader = { labels, read };
+    readers.add(reader);
+
+    return () => {
+      readers.delete(reader);
+      if (readers.size === 0) {
+        gauges.delete(name);
+      }
+    };
+  };
+
+  const header = (name: string, type: string) => [
+    `# HELP ${prefix}${name} ${METRIC_HELP[name] ?? name}`,
+    `# TYPE ${prefix}${name} ${type}`,
+  ];
+
+  const metrics = (): string => {
+    const lines: string[] = [];
+
+    for (const [name, family] of families) {
+      lines.push(...header(name, family.type));
+      const metricName = `${prefix}${name}`;
+
+      for (const { labels, value, histogram } of family.series.values()) {
+        if (!histogram) {
+          lines.push(
+            `${metricName}${formatLabels(labels)} ${formatValue(value)}`,
+          );
+          continue;
+        }
+
+        sortedBuckets.forEach((bound, index) => {
+          const bucketLabels = { ...labels, le: formatValue(bound) };
+          lines.push(
+            `${metricName}_bucket${formatLabels(bucketLabels)} ${histogram.counts[index]}`,
+          );
+        });
+        lines.push(
+          `${metricName}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${histogram.count}`,
+        );
+        lines.push(
+          `${metricName}_sum${formatLabels(labels)} ${formatValue(histogram.sum)}`,
+        );
+        lines.push(
+          `${metricName}_count${formatLabels(labels)} ${histogram.count}`,
+        );
+      }
+    }
+
+    for (const [name, readers] of gauges) {
+      lines.push(...header(name, "gauge"));
+      for (const { labels, read } of readers) {
+        lines.push(
+          `${prefix}${name}${formatLabels(labels)} ${formatValue(read())}`,
+        );
+      }
+    }
+
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  };
+
+  const reset = () => {
+    families.clear();
+    gauges.clear();
+  };
+
+  return {
+    increment,
+    observe,
+    gauge,
+    metrics,
+    contentType: "text/plain; version=0.0.4; charset=utf-8",
+    reset,
+  };
+};
+
+/**
+ * Create a sink that records metrics through an OpenTelemetry Meter
+ * @param meter Meter from @opentelemetry/api's metrics.getMeter()
+ * @returns Sink to pass as ClientOptions.metrics
+ */
+export const createOpenTelemetrySink = (
+  meter: OpenTelemetryMeter,
+): MetricsSink => {
+  const counters = new Map<
+    string,
+    ReturnType<OpenTelemetryMeter["createCounter"]>
+  >();
+  const histograms = new Map<
+    string,
+    ReturnType<OpenTelemetryMeter["createHistogram"]>
+  >();
+  const gauges = new Map<
+    string,
+    Set<{ labels: MetricLabels; read: () => number }>
+  >();
+
+  const describe = (name: string) => ({
+    description: METRIC_HELP[name],
+    unit: name.endsWith("_seconds") ? "s" : undefined,
+  });
+
+  const increment = (name: string, labels: MetricLabels = {}, value = 1) => {
+    let counter = counters.get(name);
+    if (!counter) {
+      counter = meter.createCounter(name, describe(name));
+      counters.set(name, counter);
+    }
+    counter.add(value, labels);
+  };
+
+  const observe = (name: string, value: number, labels: MetricLabels = {}) => {
+    let histogram = histograms.get(name);
+    if (!histogram) {
+      histogram = meter.createHistogram(name, describe(name));
+      histograms.set(name, histogram);
+    }
+    histogram.record(value, labels);
+  };
+
+  const gauge = (
+    name: string,
+    read: () => number,
+    labels: MetricLabels = {},
+  ) => {
+    const existing = gauges.get(name);
+    const readers =
+      existing ??
+      new Set<{
+        labels: MetricLabels;
+        read: () => number;
+      }>();
+    if (!existing) {
+      gauges.set(name, readers);
+
+      // One instrument per name, reporting every registered reader
+      const callback: OpenTelemetryObservableCallback = (result) => {
+        for (const reader of readers) {
+          result.observe(reader.read(), reader.labels);
+        }
+      };
+      meter.createObservableGauge(name, describe(name)).addCallback(callback);
+    }
+
+    const reader = { labels, read };
+    readers.add(reader);
+    return () => {
+      readers.delete(reader);
+    };
+  };
+
+  return { increment, observe, gauge };
+};
@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMiddlewarePipeline, plainEmoteMiddleware } from "./middleware";
+import { createDefaultLogger } from "../utils/logger";
+import { tokenize } from "../utils/tokens";
+import type { MessageData } from "../types/events";
+import type { MiddlewareContext } from "../types/middleware";
+
+const chat = (content: string): MiddlewareContext => {
+  const data: MessageData = {
+    id: content,
+    chatroom_id: 668,
+    content,
+    type: "message",
+    created_at: "2024-01-01T00:00:00Z",
+    sender: {
+      id: 1,
+      username: "viewer",
+      slug: "viewer",
+      identity: { color: "#ffffff", badges: [] },
+    },
+    tokens: tokenize(content),
+  };
+  return { type: "ChatMessage", data, channel: null, state: {} };
+};
+
+const contentOf = (context: MiddlewareContext) =>
+  context.type === "ChatMessage" ? context.data.content : context.type;
+
+const createPipeline = (emit: (context: MiddlewareContext) => void) => {
+  const onError = vi.fn();
+  const onListenerError = vi.fn();
+  const pipeline = createMiddlewarePipeline({
+    logger: createDefaultLogger(),
+    emit,
+    onError,
+    onListenerError,
+  });
+  return { pipeline, onError, onListenerError };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createMiddlewarePipeline", () => {
+  it("delivers events in arrival order while middlewares are async", async () => {
+    const delivered: string[] = [];
+    const { pipeline } = createPipeline((context) => {
+      delivered.push(contentOf(context));
+    });
+    pipeline.use(async (context, next) => {
+      // Hold the first event back longer than the second
+      const wait = contentOf(context) === "first" ? 20 : 0;
+      await new Promise((resolve) => setTimeout(resolve, wait));
+      await next();
+    });
+
+    pipeline.push(chat("first"));
+    pipeline.push(chat("second"));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(delivered).toEqual(["first", "second"]);
+  });
+
+  it("drops events whose middleware doesn't call next", async () => {
+    const emit = vi.fn<(context: MiddlewareContext) => void>();
+    const { pipeline } = createPipeline(emit);
+    pipeline.use((context, next) =>
+      contentOf(context) === "spam" ? undefined : next(),
+    );
+
+    pipeline.push(chat("spam"));
+    pipeline.push(chat("hello"));
+    await flush();
+
+    expect(emit.mock.calls.map(([context]) => contentOf(context))).toEqual([
+      "hello",
+    ]);
+  });
+
+  it("reports middleware errors and drops the event", async () => {
+    const emit = vi.fn();
+    const { pipeline, onError } = createPipeline(emit);
+    pipeline.use(() => Promise.reject(new Error("middleware failed")));
+
+    const context = chat("hello");
+    pipeline.push(context);
+    await flush();
+
+    expect(emit).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(
+      new Error("middleware failed"),
+      context,
+    );
+  });
+
+  it("reports a listener that throws without a middleware", () => {
+    const { pipeline, onListenerError } = createPipeline(() => {
+      throw new Error("listener failed");
+    });
+
+    const context = chat("hello");
+    pipeline.push(context);
+
+    expect(onListenerError).toHaveBeenCalledWith(
+      new Error("listener failed"),
+      context,
+    );
+  });
+
+  it("reports a listener that throws after the middlewares ran", async () => {
+    const { pipeline, onError, onListenerError } = createPipeline(() => {
+      throw new Error("listener failed");
+    });
+    pipeline.use((_context, next) => next());
+
+    const context = chat("hello");
+    pipeline.push(context);
+    await flush();
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(onListenerError).toHaveBeenCalledWith(
+      new Error("listener failed"),
+      context,
+    );
+  });
+
+  it("keeps delivering after a listener throws", async () => {
+    const delivered: string[] = [];
+    const { pipeline } = createPipeline((context) => {
+      delivered.push(contentOf(context));
+      if (contentOf(context) === "first") {
+        throw new Error("listener failed");
+      }
+    });
+    pipeline.use((_context, next) => next());
+
+    pipeline.push(chat("first"));
+    pipeline.push(chat("second"));
+    await flush();
+
+    expect(delivered).toEqual(["first", "second"]);
+  });
+});
+
+describe("plainEmoteMiddleware", () => {
+  it("replaces emote tags with their names", async () => {
+    const context = chat("hi [emote:1:KEKW]");
+    await plainEmoteMiddleware(context, () => Promise.resolve());
+
+    expect(contentOf(context)).toBe("hi KEKW");
+  });
+});
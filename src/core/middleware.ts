@@ -0,0 +1,113 @@
+import type { Logger } from "../types/client";
+import type { Middleware, MiddlewareContext } from "../types/middleware";
+import { renderPlainText } from "../utils/tokens";
+
+export interface MiddlewarePipelineOptions {
+  logger: Logger;
+  /** Deliver an event that made it through every middleware */
+  emit: (context: MiddlewareContext) => void;
+  /** Report a middleware that threw or rejected */
+  onError: (error: Error, context: MiddlewareContext) => void;
+  /** Report a listener that threw while an event was delivered */
+  onListenerError: (error: Error, context: MiddlewareContext) => void;
+}
+
+/**
+ * Built-in middleware behind the plainEmote option
+ */
+export const plainEmoteMiddleware: Middleware = (context, next) => {
+  if (context.type === "ChatMessage") {
+    context.data.content = renderPlainText(context.data.tokens);
+  }
+  return next();
+};
+
+/**
+ * Run parsed events through middlewares in registration order. Events are
+ * delivered in the order they arrived, even when a middleware is async.
+ */
+export const createMiddlewarePipeline = ({
+  logger,
+  emit,
+  onError,
+  onListenerError,
+}: MiddlewarePipelineOptions) => {
+  const middlewares: Middleware[] = [];
+  let queue: Promise<void> = Promise.resolve();
+  let pending = 0;
+
+  // Resolves to whether the event reached the end of the chain
+  const run = async (context: MiddlewareContext): Promise<boolean> => {
+    const stack = [...middlewares];
+    let index = -1;
+    let completed = false;
+
+    const dispatch = async (i: number): Promise<void> => {
+      if (i <= index) {
+        throw new Error("next() called multiple times");
+      }
+      index = i;
+
+      const middleware = stack[i];
+      if (!middleware) {
+        completed = true;
+        return;
+      }
+      await middleware(context, () => dispatch(i + 1));
+    };
+
+    await dispatch(0);
+    return completed;
+  };
+
+  const deliver = (context: MiddlewareContext) => {
+    try {
+      emit(context);
+    } catch (error) {
+      onListenerError(
+        error instanceof Error ? error : new Error(String(error)),
+        context,
+      );
+    }
+  };
+
+  const process = async (context: MiddlewareContext) => {
+    let completed: boolean;
+    try {
+      completed = await run(context);
+    } catch (error) {
+      onError(
+        error instanceof Error ? error : new Error(String(error)),
+        context,
+      );
+      return;
+    }
+
+    if (completed) {
+      deliver(context);
+    } else {
+      logger.debug(`Middleware dropped ${context.type}`);
+    }
+  };
+
+  const push = (context: MiddlewareContext) => {
+    // Skip the queue entirely while there's nothing to run
+    if (middlewares.length === 0 && pending === 0) {
+      deliver(context);
+      return;
+    }
+
+    pending++;
+    queue = queue
+      .then(() => process(context))
+      .finally(() => {
+        pending--;
+      });
+  };
+
+  const use = (middleware: Middleware) => {
+    middlewares.push(middleware);
+  };
+
+  return { use, push };
+};
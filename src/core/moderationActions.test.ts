@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from "vitest";
+import { createModerationActions } from "./moderationActions";
+import { createEmitter } from "./emitter";
+import { createKickError } from "../utils/errors";
+import { ErrorType } from "../types/client";
+import type { KickEventMap, MessageData } from "../types/events";
+
+const message: MessageData = {
+  id: "m1",
+  chatroom_id: 668,
+  content: "pin me",
+  type: "message",
+  created_at: "2024-01-01T00:00:00Z",
+  sender: {
+    id: 1,
+    username: "viewer",
+    slug: "viewer",
+    identity: { color: "#ffffff", badges: [] },
+  },
+  tokens: [{ type: "text", text: "pin me" }],
+};
+
+const createActions = (connected = true) => {
+  const emitter = createEmitter<{
+    [K in keyof KickEventMap]: [data: KickEventMap[K]];
+  }>();
+  const request = vi.fn(() => Promise.resolve(null));
+  const actions = createModerationActions({
+    api: { request },
+    emitter,
+    channelName: "xqc",
+    resolveChatroomId: () => Promise.resolve(668),
+    resolveMessage: (value) => (typeof value === "string" ? message : value),
+    isConnected: () => connected,
+    createError: (type, text) => createKickError({ type, message: text }),
+  });
+  return { actions, emitter, request };
+};
+
+const banned = (username: string, expires_at?: string) =>
+  ({
+    id: "b1",
+    user: { id: 2, username, slug: username },
+    banned_by: { id: 1, username: "mod", slug: "mod" },
+    expires_at,
+  }) as KickEventMap["UserBanned"];
+
+describe("createModerationActions", () => {
+  it("resolves with the event confirming the action", async () => {
+    const { actions, emitter, request } = createActions();
+
+    const result = actions.timeout("Troll", 5, { reason: "spam" });
+    await Promise.resolve();
+    emitter.emit("UserBanned", banned("someone-else", "2024-01-01"));
+    emitter.emit("UserBanned", banned("troll"));
+    emitter.emit("UserBanned", banned("troll", "2024-01-01"));
+
+    expect(await result).toEqual(banned("troll", "2024-01-01"));
+    expect(request).toHaveBeenCalledWith("POST", "/api/v2/channels/xqc/bans", {
+      banned_username: "Troll",
+      duration: 5,
+      permanent: false,
+      reason: "spam",
+    });
+    expect(emitter.listenerCount("UserBanned")).toBe(0);
+  });
+
+  it("doesn't wait for confirmation while disconnected", async () => {
+    const { actions, request } = createActions(false);
+
+    expect(await actions.unban("troll")).toBeNull();
+    expect(request).toHaveBeenCalledWith(
+      "DELETE",
+      "/api/v2/channels/xqc/bans/troll",
+    );
+  });
+
+  it("rejects with an error when no event confirms the action", async () => {
+    const { actions, emitter } = createActions();
+
+    const result = actions.ban("troll", undefined, { confirmTimeout: 10 });
+
+    await expect(result).rejects.toBeInstanceOf(Error);
+    await expect(result).rejects.toMatchObject({
+      type: ErrorType.API_REQUEST,
+      message: "No UserBanned event confirmed the ban of troll within 10ms",
+    });
+    expect(emitter.listenerCount("UserBanned")).toBe(0);
+  });
+
+  it("stops waiting when the request fails", async () => {
+    const { actions, emitter, request } = createActions();
+    request.mockRejectedValueOnce(new Error("forbidden"));
+
+    await expect(actions.deleteMessage("m1")).rejects.toThrow("forbidden");
+    expect(emitter.listenerCount("MessageDeleted")).toBe(0);
+  });
+
+  it("pins a message without its tokens", async () => {
+    const { actions, request } = createActions(false);
+
+    await actions.pinMessage("m1", 60);
+
+    expect(request).toHaveBeenCalledWith(
+      "POST",
+      "/api/v2/channels/xqc/pinned-message",
+      {
+        message: {
+          id: "m1",
+          chatroom_id: 668,
+          content: "pin me",
+          type: "message",
+          created_at: "2024-01-01T00:00:00Z",
+          sender: message.sender,
+        },
+        duration: 60,
+      },
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { ErrorType, type KickClient, type KickError } from "../types/client";
+import type { KickEventMap, MessageData } from "../types/events";
+import type { ModerationActionOptions } from "../types/moderation";
+import type { ApiClient } from "./api";
+import type { Emitter } from "./emitter";
+
+const DEFAULT_CONFIRM_TIMEOUT = 10000;
+
+export interface ModerationActionsOptions {
+  api: ApiClient;
+  /** Emitter the client's Kick events are emitted on */
+  emitter: Emitter<{ [K in keyof KickEventMap]: [data: KickEventMap[K]] }>;
+  channelName: string;
+  resolveChatroomId: () => Promise<number>;
+  /** Look up a message by ID, throwing if it isn't known */
+  resolveMessage: (message: MessageData | string) => MessageData;
+  isConnected: () => boolean;
+  createError: (type: ErrorType, message: string) => KickError & Error;
+}
+
+export type ModerationActions = Pick<
+  KickClient,
+  "ban" | "timeout" | "unban" | "deleteMessage" | "pinMessage"
+>;
+
+const isUser = (user: { username: string; slug: string }, name: string) =>
+  user.username.toLowerCase() === name.toLowerCase() ||
+  user.slug === name.toLowerCase();
+
+/**
+ * Create moderation methods that call Kick's API and, optionally, wait for
+ * the Kick event confirming the action
+ */
+export const createModerationActions = ({
+  api,
+  emitter,
+  channelName,
+  resolveChatroomId,
+  resolveMessage,
+  isConnected,
+  createError,
+}: ModerationActionsOptions): ModerationActions => {
+  const channelPath = `/api/v2/channels/${encodeURIComponent(channelName)}`;
+
+  const perform = async <K extends keyof KickEventMap>(
+    request: () => Promise<unknown>,
+    event: K,
+    matches: (data: KickEventMap[K]) => boolean,
+    action: string,
+    {
+      confirm = isConnected(),
+      confirmTimeout = DEFAULT_CONFIRM_TIMEOUT,
+    }: ModerationActionOptions,
+  ): Promise<KickEventMap[K] | null> => {
+    if (!confirm) {
+      await request();
+      return null;
+    }
+
+    // Listen before the request is made so a quick event isn't missed
+    let stopWaiting = () => {};
+    const confirmation = new Promise<KickEventMap[K]>((resolve, reject) => {
+      const listener = (data: KickEventMap[K]) => {
+        if (matches(data)) {
+          stopWaiting();
+          resolve(data);
+        }
+      };
+      const timer = setTimeout(() => {
+        stopWaiting();
+        reject(
+          createError(
+            ErrorType.API_REQUEST,
+            `No ${event} event confirmed ${action} within ${confirmTimeout}ms`,
+          ),
+        );
+      }, confirmTimeout);
+
+      stopWaiting = () => {
+        clearTimeout(timer);
+        emitter.removeListener(event, listener);
+      };
+      emitter.on(event, listener);
+    });
+    // Handled below, but may reject while the request is still in flight
+    confirmation.catch(() => {});
+
+    try {
+      await request();
+    } catch (error) {
+      stopWaiting();
+      throw error;
+    }
+    return confirmation;
+  };
+
+  return {
+    ban: (username, reason, options = {}) =>
+      perform(
+        () =>
+          api.request("POST", `${channelPath}/bans`, {
+            banned_username: username,
+            permanent: true,
+            ...(reason && { reason }),
+          }),
+        "UserBanned",
+        (event) => isUser(event.user, username) && !event.expires_at,
+        `the ban of ${username}`,
+        options,
+      ),
+
+    timeout: (username, minutes, { reason, ...options } = {}) =>
+      perform(
+        () =>
+          api.request("POST", `${channelPath}/bans`, {
+            banned_username: username,
+            duration: minutes,
+            permanent: false,
+            ...(reason && { reason }),
+          }),
+        "UserBanned",
+        (event) => isUser(event.user, username) && !!event.expires_at,
+        `the timeout of ${username}`,
+        options,
+      ),
+
+    unban: (username, options = {}) =>
+      perform(
+        () =>
+          api.request(
+            "DELETE",
+            `${channelPath}/bans/${encodeURIComponent(username)}`,
+          ),
+        "UserUnbanned",
+        (event) => isUser(event.user, username),
+        `the unban of ${username}`,
+        options,
+      ),
+
+    deleteMessage: async (messageId, options = {}) => {
+      const chatroomId = await resolveChatroomId();
+      return perform(
+        () =>
+          api.request(
+            "DELETE",
+            `/api/v2/chatrooms/${chatroomId}/messages/${encodeURIComponent(messageId)}`,
+          ),
+        "MessageDeleted",
+        (event) => event.message.id === messageId,
+        `the deletion of message ${messageId}`,
+        options,
+      );
+    },
+
+    pinMessage: async (message, duration, options = {}) => {
+      // Kick expects the message as it was sent, without derived tokens
+      const { id, chatroom_id, content, type, created_at, sender, metadata } =
+        resolveMessage(message);
+      const pinned = {
+        id,
+        chatroom_id,
+        content,
+        type,
+        created_at,
+        sender,
+        metadata,
+      };
+      return perform(
+        () =>
+          api.request("POST", `${channelPath}/pinned-message`, {
+            message: pinned,
+            duration,
+          }),
+        "PinnedMessageCreated",
+        (event) => event.message.id === pinned.id,
+        `the pin of message ${pinned.id}`,
+        options,
+      );
+    },
+  };
+};
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createDecorrelatedJitterPolicy,
+  createFullJitterPolicy,
+} from "./reconnect";
+
+const withRandom = (value: number) => {
+  vi.spyOn(Math, "random").mockReturnValue(value);
+};
+
+describe("createFullJitterPolicy", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("caps the delay at the exponential backoff for the attempt", () => {
+    withRandom(1);
+    const policy = createFullJitterPolicy({ baseDelay: 100, maxDelay: 1000 });
+
+    expect(
+      [1, 2, 3, 4, 5, 6].map((attempt) =>
+        policy({ attempt, previousDelay: null }),
+      ),
+    ).toEqual([100, 200, 400, 800, 1000, 1000]);
+  });
+
+  it("picks any delay down to zero", () => {
+    withRandom(0);
+    const policy = createFullJitterPolicy({ baseDelay: 100 });
+
+    expect(policy({ attempt: 5, previousDelay: 400 })).toBe(0);
+  });
+
+  it("stays within bounds with real randomness", () => {
+    const policy = createFullJitterPolicy();
+    for (let attempt = 1; attempt <= 20; attempt++) {
+      const delay = policy({ attempt, previousDelay: null })!;
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(
+        Math.min(30000, 1000 * 2 ** (attempt - 1)),
+      );
+    }
+  });
+});
+
+describe("createDecorrelatedJitterPolicy", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("grows up to three times the previous delay", () => {
+    withRandom(1);
+    const policy = createDecorrelatedJitterPolicy({
+      baseDelay: 100,
+      maxDelay: 5000,
+    });
+
+    let previousDelay: number | null = null;
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      previousDelay = policy({ attempt, previousDelay });
+      delays.push(previousDelay!);
+    }
+    expect(delays).toEqual([300, 900, 2700, 5000, 5000]);
+  });
+
+  it("never goes below the base delay", () => {
+    withRandom(0);
+    const policy = createDecorrelatedJitterPolicy({ baseDelay: 100 });
+
+    expect(policy({ attempt: 3, previousDelay: 2000 })).toBe(100);
+    expect(policy({ attempt: 2, previousDelay: 10 })).toBe(100);
+  });
+
+  it("stays within bounds with real randomness", () => {
+    const policy = createDecorrelatedJitterPolicy({ maxDelay: 10000 });
+    let previousDelay: number | null = null;
+    for (let attempt = 1; attempt <= 20; attempt++) {
+      const delay: number = policy({ attempt, previousDelay })!;
+      expect(delay).toBeGreaterThanOrEqual(1000);
+      expect(delay).toBeLessThanOrEqual(
+        Math.min(10000, (previousDelay ?? 1000) * 3),
+      );
+      previousDelay = delay;
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import type {
+  ReconnectPolicy,
+  ReconnectPolicyOptions,
+} from "../types/reconnect";
+
+const DEFAULT_BASE_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 30000;
+
+const randomBetween = (min: number, max: number) =>
+  Math.round(min + Math.random() * (max - min));
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and the
+ * exponential delay, so clients dropped together don't return together
+ * @param options Base and maximum delay
+ */
+export const createFullJitterPolicy =
+  ({
+    baseDelay = DEFAULT_BASE_DELAY,
+    maxDelay = DEFAULT_MAX_DELAY,
+  }: ReconnectPolicyOptions = {}): ReconnectPolicy =>
+  ({ attempt }) =>
+    randomBetween(0, Math.min(maxDelay, baseDelay * 2 ** (attempt - 1)));
+
+/**
+ * Decorrelated jitter: each delay is random between the base delay and
+ * three times the previous one, capped at the maximum
+ * @param options Base and maximum delay
+ */
+export const createDecorrelatedJitterPolicy =
+  ({
+    baseDelay = DEFAULT_BASE_DELAY,
+    maxDelay = DEFAULT_MAX_DELAY,
+  }: ReconnectPolicyOptions = {}): ReconnectPolicy =>
+  ({ previousDelay }) =>
+    Math.min(
+      maxDelay,
+      randomBetween(
+        baseDelay,
+        Math.max(baseDelay, (previousDelay ?? baseDelay) * 3),
+      ),
+    );
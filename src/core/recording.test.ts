@@ -0,0 +1,140 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFrameRecorder, createReplaySource } from "./recording";
+import { createClient } from "../client/client";
+import type { KickError } from "../types/client";
+
+const chatFrame = (id: string) =>
+  JSON.stringify({
+    event: "App\\Events\\ChatMessageEvent",
+    channel: "chatrooms.668.v2",
+    data: JSON.stringify({
+      id,
+      chatroom_id: 668,
+      content: `message ${id}`,
+      type: "message",
+      created_at: "2024-01-01T00:00:00Z",
+      sender: {
+        id: 1,
+        username: "viewer",
+        slug: "viewer",
+        identity: { color: "#ffffff", badges: [] },
+      },
+    }),
+  });
+
+describe("recording", () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "kick-js-recording-"));
+    path = join(directory, "frames.ndjson");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  // Record three frames 40ms apart
+  const record = async () => {
+    vi.spyOn(Date, "now")
+      .mockReturnValueOnce(1000)
+      .mockReturnValueOnce(1040)
+      .mockReturnValueOnce(1080);
+    const recorder = createFrameRecorder(path);
+    ["a", "b", "c"].forEach((id) => recorder.record(chatFrame(id)));
+    await recorder.close();
+    vi.restoreAllMocks();
+  };
+
+  // Replay the recording, collecting frames and the delays waited between them
+  const replay = async (speed?: number) => {
+    const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+    const frames: string[] = [];
+    await createReplaySource(path, { speed }).start((frame) => {
+      frames.push(frame);
+    });
+
+    const delays = setTimeoutSpy.mock.calls.map(([, ms]) => ms);
+    return { frames, delays };
+  };
+
+  it("writes each frame as an NDJSON line", async () => {
+    await record();
+
+    const lines = readFileSync(path, "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line) as unknown)).toEqual([
+      { ts: 1000, frame: chatFrame("a") },
+      { ts: 1040, frame: chatFrame("b") },
+      { ts: 1080, frame: chatFrame("c") },
+    ]);
+  });
+
+  it("replays a recording in real time", async () => {
+    await record();
+
+    expect(await replay()).toEqual({
+      frames: [chatFrame("a"), chatFrame("b"), chatFrame("c")],
+      delays: [40, 40],
+    });
+  });
+
+  it("replays a recording at a scaled speed", async () => {
+    await record();
+
+    expect(await replay(4)).toEqual({
+      frames: [chatFrame("a"), chatFrame("b"), chatFrame("c")],
+      delays: [10, 10],
+    });
+  });
+
+  it("replays a recording as fast as possible", async () => {
+    await record();
+
+    expect(await replay(Infinity)).toEqual({
+      frames: [chatFrame("a"), chatFrame("b"), chatFrame("c")],
+      delays: [],
+    });
+  });
+
+  it("reports a malformed line through the client's error event", async () => {
+    writeFileSync(
+      path,
+      `${JSON.stringify({ ts: 1000, frame: chatFrame("a") })}\n{"ts":\n`,
+    );
+    const client = createClient("xqc", {
+      chatroomId: 668,
+      source: createReplaySource(path, { speed: Infinity }),
+    });
+    const contents: string[] = [];
+    client.on("ChatMessage", (message) => contents.push(message.content));
+    const failed = new Promise<KickError>((resolve) => {
+      client.on("error", resolve);
+    });
+
+    await client.connect();
+    const error = await failed;
+    client.disconnect();
+
+    expect(contents).toEqual(["message a"]);
+    expect(error.message).toBe("Frame source failed");
+    expect(error.originalError?.message).toBe("Malformed recording at line 2");
+  });
+
+  it("reports a path it can't write to instead of crashing", async () => {
+    const onError = vi.fn();
+    const recorder = createFrameRecorder(join(directory, "missing", "x"), {
+      onError,
+    });
+    recorder.record(chatFrame("a"));
+
+    await expect(recorder.close()).rejects.toMatchObject({ code: "ENOENT" });
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: "ENOENT" }),
+    );
+  });
+});
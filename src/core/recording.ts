@@ -0,0 +1,153 @@
+import { createReadStream, createWriteStream } from "fs";
+import { createInterface } from "readline";
+import type { FrameRecorder, FrameSource } from "../types/client";
+
+/**
+ * One line of an NDJSON recording
+ */
+export interface RecordedFrame {
+  /** Unix time in ms the frame was received */
+  ts: number;
+  /** Raw frame as delivered by the socket */
+  frame: string;
+}
+
+export interface FrameRecorderOptions {
+  /** Append to an existing recording instead of truncating it (default: false) */
+  append?: boolean;
+  /** Called if the file can't be opened or written; later frames are dropped */
+  onError?: (error: Error) => void;
+}
+
+export interface ReplaySourceOptions {
+  /**
+   * Playback speed relative to the recording: 1 is real time, 2 twice as
+   * fast, Infinity as fast as possible (default: 1)
+   */
+  speed?: number;
+}
+
+/**
+ * Create a recorder that writes each raw frame to an NDJSON file
+ * @param path File to write the recording to
+ * @param options Recorder options
+ * @returns Recorder to pass as ClientOptions.recorder
+ */
+export const createFrameRecorder = (
+  path: string,
+  { append = false, onError }: FrameRecorderOptions = {},
+): FrameRecorder => {
+  let failure: Error | null = null;
+  const stream = createWriteStream(path, { flags: append ? "a" : "w" });
+
+  // An unhandled stream error, e.g. from a bad path, would crash the process
+  stream.on("error", (error) => {
+    failure ??= error;
+    onError?.(error);
+  });
+
+  const record = (frame: string) => {
+    if (failure) {
+      return;
+    }
+    const line: RecordedFrame = { ts: Date.now(), frame };
+    stream.write(`${JSON.stringify(line)}\n`);
+  };
+
+  const close = (): Promise<void> => {
+    if (failure) {
+      return Promise.reject(failure);
+    }
+    return new Promise((resolve, reject) => {
+      stream.once("error", reject);
+      stream.once("finish", resolve);
+      stream.end();
+    });
+  };
+
+  return { record, close };
+};
+
+const parseLine = (line: string, lineNumber: number): RecordedFrame => {
+  try {
+    const parsed = JSON.parse(line) as Partial<RecordedFrame>;
+    if (typeof parsed.ts === "number" && typeof parsed.frame === "string") {
+      return { ts: parsed.ts, frame: parsed.frame };
+    }
+  } catch {
+    // Reported below with the line number
+  }
+  throw new Error(`Malformed recording at line ${lineNumber}`);
+};
+
+/**
+ * Create a frame source that replays an NDJSON recording
+ * @param path Recording written by createFrameRecorder
+ * @param options Playback options
+ * @returns Source to pass as ClientOptions.source
+ */
+export const createReplaySource = (
+  path: string,
+  { speed = 1 }: ReplaySourceOptions = {},
+): FrameSource => {
+  let stopped = false;
+  let wake: (() => void) | null = null;
+  let delayTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const delay = (ms: number): Promise<void> => {
+    return new Promise((resolve) => {
+      wake = resolve;
+      delayTimer = setTimeout(resolve, ms);
+    });
+  };
+
+  const start = async (onFrame: (frame: string) => void): Promise<void> => {
+    stopped = false;
+    const lines = createInterface({
+      input: createReadStream(path),
+      crlfDelay: Infinity,
+    });
+
+    let previousTs: number | null = null;
+    let lineNumber = 0;
+    try {
+      for await (const line of lines) {
+        lineNumber++;
+        if (stopped) {
+          break;
+        }
+        if (!line.trim()) {
+          continue;
+        }
+
+        const { ts, frame } = parseLine(line, lineNumber);
+        if (previousTs !== null && Number.isFinite(speed)) {
+          const wait = (ts - previousTs) / speed;
+          if (wait > 0) {
+            await delay(wait);
+            if (stopped) {
+              break;
+            }
+          }
+        }
+        previousTs = ts;
+
+        onFrame(frame);
+      }
+    } finally {
+      lines.close();
+    }
+  };
+
+  const stop = () => {
+    stopped = true;
+    if (delayTimer) {
+      clearTimeout(delayTimer);
+      delayTimer = null;
+    }
+    wake?.();
+    wake = null;
+  };
+
+  return { start, stop };
+};
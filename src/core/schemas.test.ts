@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+import { validateEvent } from "./schemas";
+import { createClient } from "../client/client";
+import { ErrorType, type FrameSource } from "../types/client";
+
+const chatMessage = {
+  id: "0b7a2a8e",
+  chatroom_id: 668,
+  content: "hello",
+  type: "message",
+  created_at: "2024-01-01T00:00:00Z",
+  sender: {
+    id: 1,
+    username: "xqc",
+    slug: "xqc",
+    identity: { color: "#ffffff", badges: [{ type: "vip", text: "VIP" }] },
+  },
+};
+
+describe("validateEvent", () => {
+  it("accepts a valid payload", () => {
+    expect(validateEvent("ChatMessage", chatMessage)).toEqual([]);
+  });
+
+  it("reports fields Kick changed", () => {
+    expect(
+      validateEvent("ChatMessage", {
+        ...chatMessage,
+        chatroom_id: "668",
+        sender: { ...chatMessage.sender, identity: null },
+      }),
+    ).toEqual([
+      "chatroom_id: expected number, got string",
+      "sender.identity: expected object, got null",
+    ]);
+  });
+
+  it("accepts ids as numbers or strings where Kick sends both", () => {
+    const reply = (id: unknown) => ({
+      ...chatMessage,
+      metadata: {
+        original_sender: { id, username: "a" },
+        original_message: { id: "1", content: "hi" },
+      },
+    });
+    expect(validateEvent("ChatMessage", reply(1))).toEqual([]);
+    expect(validateEvent("ChatMessage", reply("1"))).toEqual([]);
+  });
+
+  it("skips types without a schema", () => {
+    expect(validateEvent("NotAnEvent", null)).toEqual([]);
+  });
+});
+
+// Deliver frames as if they came from Kick
+const frameSource = (frames: object[]): FrameSource => ({
+  start: (onFrame) => {
+    frames.forEach((frame) => onFrame(JSON.stringify(frame)));
+    return Promise.resolve();
+  },
+  stop: () => {},
+});
+
+describe("strict validation", () => {
+  it("drops invalid Kick events but handles invalid protocol frames", async () => {
+    const onError = vi.fn();
+    const client = createClient("xqc", {
+      chatroomId: 668,
+      validation: "strict",
+      onError,
+      source: frameSource([
+        {
+          event: "pusher:connection_established",
+          data: JSON.stringify({ socket_id: 1, activity_timeout: 120 }),
+        },
+        {
+          event: "App\\Events\\ChatMessageEvent",
+          channel: "chatrooms.668.v2",
+          data: JSON.stringify({ ...chatMessage, chatroom_id: "668" }),
+        },
+        {
+          event: "App\\Events\\ChatMessageEvent",
+          channel: "chatrooms.668.v2",
+          data: JSON.stringify(chatMessage),
+        },
+      ]),
+    });
+    const contents: string[] = [];
+    client.on("ChatMessage", (message) => contents.push(message.content));
+
+    await client.connect();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    client.disconnect();
+
+    expect(contents).toEqual(["hello"]);
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: ErrorType.VALIDATION,
+        context: expect.objectContaining({ event: "ChatMessage" }) as unknown,
+      }),
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import type { ParsedEventMap } from "../types/events";
+import { getRegisteredSchema } from "./eventRegistry";
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+  union,
+  unknown,
+  validate,
+  type Schema,
+} from "../utils/schema";
+
+// Kick sends ids as numbers on some events and strings on others
+const id = union(number(), string());
+
+const user = object({
+  id: number(),
+  username: string(),
+  slug: string(),
+});
+
+const badge = object({
+  type: string(),
+  text: string(),
+  count: optional(number()),
+});
+
+const sender = object({
+  id: number(),
+  username: string(),
+  slug: string(),
+  identity: object({
+    color: string(),
+    badges: array(badge),
+  }),
+});
+
+const messageDeleted = object({
+  id: string(),
+  message: object({ id: string() }),
+});
+
+/**
+ * Schemas for every event payload, keyed by parsed event type
+ */
+export const eventSchemas = {
+  ChatMessage: object({
+    id: string(),
+    chatroom_id: number(),
+    content: string(),
+    type: string(),
+    created_at: string(),
+    sender,
+    metadata: optional(
+      object({
+        original_sender: object({ id: id, username: string() }),
+        original_message: object({ id: string(), content: string() }),
+      }),
+    ),
+  }),
+  Subscription: object({
+    chatroom_id: number(),
+    username: string(),
+    months: number(),
+  }),
+  GiftedSubscriptions: object({
+    chatroom_id: number(),
+    gifted_usernames: array(string()),
+    gifter_username: string(),
+  }),
+  StreamHost: object({
+    chatroom_id: number(),
+    optional_message: string(),
+    number_viewers: number(),
+    host_username: string(),
+  }),
+  MessageDeleted: messageDeleted,
+  UserBanned: object({
+    id: string(),
+    user,
+    banned_by: user,
+    expires_at: optional(string()),
+  }),
+  UserUnbanned: object({
+    id: string(),
+    user,
+    unbanned_by: user,
+  }),
+  PinnedMessageCreated: object({
+    message: object({
+      id: string(),
+      chatroom_id: number(),
+      content: string(),
+      type: string(),
+      created_at: string(),
+      sender,
+    }),
+    duration: union(string(), number()),
+  }),
+  PinnedMessageDeleted: messageDeleted,
+  ChatroomUpdated: object({
+    id: number(),
+    slow_mode: object({ enabled: boolean(), message_interval: number() }),
+    subscribers_mode: object({ enabled: boolean() }),
+    followers_mode: object({ enabled: boolean(), min_duration: number() }),
+    emotes_mode: object({ enabled: boolean() }),
+  }),
+  PollUpdate: object({
+    poll: object({
+      title: string(),
+      options: array(
+        object({ id: number(), label: string(), votes: number() }),
+      ),
+      duration: number(),
+      remaining: number(),
+      result_display_duration: number(),
+    }),
+  }),
+  PollDelete: unknown(),
+  StreamStarted: object({
+    livestream: object({
+      id: number(),
+      channel_id: number(),
+      session_title: string(),
+      created_at: string(),
+    }),
+  }),
+  StreamEnded: object({
+    livestream: object({
+      id: number(),
+      channel: object({ id: number(), is_banned: boolean() }),
+    }),
+  }),
+  LivestreamUpdated: object({
+    livestream: object({
+      id: number(),
+      slug: string(),
+      channel_id: number(),
+      session_title: string(),
+      is_live: boolean(),
+      viewer_count: number(),
+      categories: array(
+        object({ id: number(), name: string(), slug: string() }),
+      ),
+    }),
+  }),
+  FollowersUpdated: object({
+    followersCount: number(),
+    channel_id: number(),
+    username: nullable(string()),
+    created_at: number(),
+    followed: boolean(),
+  }),
+  UnknownEvent: object({
+    event: string(),
+    data: unknown(),
+  }),
+  PusherConnectionEstablished: object({
+    socket_id: string(),
+    activity_timeout: number(),
+  }),
+  PusherSubscriptionSucceeded: unknown(),
+  PusherPong: unknown(),
+  PusherPing: unknown(),
+  PusherError: object({
+    code: nullable(number()),
+    message: string(),
+  }),
+  PusherSubscriptionError: object({
+    type: string(),
+    error: string(),
+    status: number(),
+  }),
+} satisfies { [K in keyof ParsedEventMap]: Schema };
+
+/**
+ * Check an event payload against the schema for its type
+ * @param type Parsed event type, e.g. "ChatMessage"
+ * @param data Event payload
+ * @returns Every mismatch found; empty when valid or when the type has no schema
+ */
+export const validateEvent = (type: string, data: unknown): string[] => {
+  const schema =
+    getRegisteredSchema(type) ?? (eventSchemas as Record<string, Schema>)[type];
+  return schema ? validate(schema, data) : [];
+};
@@ -0,0 +1,55 @@
+import { delay } from "../utils/utils";
+
+export interface SendQueue {
+  /** Run a task once every earlier one has settled and the interval has passed */
+  enqueue: <T>(task: () => Promise<T>) => Promise<T>;
+  /** Reject every task that hasn't started yet */
+  clear: (error: unknown) => void;
+}
+
+/**
+ * Create a queue that runs tasks one at a time, spaced apart
+ * @param getInterval Milliseconds to leave between tasks, read before each one
+ */
+export const createSendQueue = (getInterval: () => number): SendQueue => {
+  let tail: Promise<unknown> = Promise.resolve();
+  let lastSentAt = 0;
+  // Bumped by clear() so tasks queued before it know to give up
+  let generation = 0;
+  let clearError: unknown = null;
+
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const queuedIn = generation;
+
+    const run = async (): Promise<T> => {
+      if (queuedIn !== generation) {
+        throw clearError;
+      }
+
+      const wait = lastSentAt + getInterval() - Date.now();
+      if (wait > 0) {
+        await delay(wait);
+        if (queuedIn !== generation) {
+          throw clearError;
+        }
+      }
+
+      try {
+        return await task();
+      } finally {
+        lastSentAt = Date.now();
+      }
+    };
+
+    const result = tail.then(run, run);
+    tail = result.catch(() => {});
+    return result;
+  };
+
+  const clear = (error: unknown) => {
+    generation++;
+    clearError = error;
+  };
+
+  return { enqueue, clear };
+};
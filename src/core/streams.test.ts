@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import { createEventBuffer } from "./streams";
+import { ErrorType } from "../types/client";
+
+const drain = async (buffer: AsyncIterable<number>) => {
+  const values: number[] = [];
+  for await (const value of buffer) {
+    values.push(value);
+  }
+  return values;
+};
+
+describe("createEventBuffer", () => {
+  it("yields pushed values in order until ended", async () => {
+    const buffer = createEventBuffer<number>();
+    [1, 2, 3].forEach(buffer.push);
+    buffer.end();
+
+    expect(await drain(buffer)).toEqual([1, 2, 3]);
+  });
+
+  it("resolves a waiting consumer with the next push", async () => {
+    const buffer = createEventBuffer<number>();
+    const next = buffer.next();
+    buffer.push(1);
+
+    expect(await next).toEqual({ value: 1, done: false });
+  });
+
+  it("drops the oldest values on overflow by default", async () => {
+    const buffer = createEventBuffer<number>({ bufferSize: 2 });
+    [1, 2, 3, 4].forEach(buffer.push);
+    buffer.end();
+
+    expect(await drain(buffer)).toEqual([3, 4]);
+  });
+
+  it("drops incoming values on overflow with dropNewest", async () => {
+    const buffer = createEventBuffer<number>({
+      bufferSize: 2,
+      overflow: "dropNewest",
+    });
+    [1, 2, 3, 4].forEach(buffer.push);
+    buffer.end();
+
+    expect(await drain(buffer)).toEqual([1, 2]);
+  });
+
+  it("fails the stream on overflow with error", async () => {
+    const onClose = vi.fn();
+    const buffer = createEventBuffer<number>(
+      { bufferSize: 2, overflow: "error" },
+      onClose,
+    );
+    [1, 2, 3].forEach(buffer.push);
+
+    const failed = buffer.next();
+    await expect(failed).rejects.toBeInstanceOf(Error);
+    await expect(failed).rejects.toMatchObject({
+      type: ErrorType.STREAM,
+      message: "Event stream buffer overflowed (2 events)",
+    });
+    expect(onClose).toHaveBeenCalledOnce();
+    expect(await buffer.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it("rejects a waiting consumer when the stream fails", async () => {
+    const buffer = createEventBuffer<number>({
+      bufferSize: 0,
+      overflow: "error",
+    });
+    const next = buffer.next();
+    buffer.push(1);
+    buffer.push(2);
+
+    expect(await next).toEqual({ value: 1, done: false });
+    await expect(buffer.next()).rejects.toMatchObject({
+      type: ErrorType.STREAM,
+    });
+  });
+
+  it("cleans up when the consumer breaks out of for-await", async () => {
+    const onClose = vi.fn();
+    const buffer = createEventBuffer<number>({}, onClose);
+    [1, 2, 3].forEach(buffer.push);
+
+    for await (const value of buffer) {
+      if (value === 1) {
+        break;
+      }
+    }
+
+    expect(onClose).toHaveBeenCalledOnce();
+    buffer.push(4);
+    expect(await buffer.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it("ends a pending next() when return() is called", async () => {
+    const onClose = vi.fn();
+    const buffer = createEventBuffer<number>({}, onClose);
+    const next = buffer.next();
+
+    await buffer.return?.();
+
+    expect(await next).toEqual({ value: undefined, done: true });
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it("ends when the abort signal fires", async () => {
+    const controller = new AbortController();
+    const onClose = vi.fn();
+    const buffer = createEventBuffer<number>(
+      { signal: controller.signal },
+      onClose,
+    );
+    const next = buffer.next();
+
+    controller.abort();
+
+    expect(await next).toEqual({ value: undefined, done: true });
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,137 @@
+import { ErrorType, type KickError } from "../types/client";
+import { createKickError } from "../utils/errors";
+import type { EventStreamOptions } from "../types/streams";
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+export interface EventBuffer<T> extends AsyncIterableIterator<T> {
+  /** Offer a value, applying the overflow policy if the buffer is full */
+  push: (value: T) => void;
+  /** End the stream once buffered values are consumed */
+  end: () => void;
+}
+
+/**
+ * Create a bounded async iterator fed by push()
+ * @param options Buffer size, overflow policy and abort signal
+ * @param onClose Called once when the stream ends for any reason
+ * @returns Iterator for for-await consumers
+ */
+export const createEventBuffer = <T>(
+  {
+    bufferSize = DEFAULT_BUFFER_SIZE,
+    overflow = "dropOldest",
+    signal,
+  }: EventStreamOptions = {},
+  onClose: () => void = () => {},
+): EventBuffer<T> => {
+  const buffer: T[] = [];
+  let waiting: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: KickError & Error) => void;
+  } | null = null;
+  let ended = false;
+  let failure: (KickError & Error) | null = null;
+
+  const close = () => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    signal?.removeEventListener("abort", end);
+    onClose();
+  };
+
+  const end = () => {
+    close();
+    if (waiting) {
+      waiting.resolve({ value: undefined, done: true });
+      waiting = null;
+    }
+  };
+
+  const fail = (error: KickError & Error) => {
+    close();
+    buffer.length = 0;
+    if (waiting) {
+      waiting.reject(error);
+      waiting = null;
+    } else {
+      failure = error;
+    }
+  };
+
+  const push = (value: T) => {
+    if (ended) {
+      return;
+    }
+
+    if (waiting) {
+      waiting.resolve({ value, done: false });
+      waiting = null;
+      return;
+    }
+
+    if (buffer.length >= bufferSize) {
+      switch (overflow) {
+        case "dropOldest":
+          buffer.shift();
+          break;
+        case "dropNewest":
+          return;
+        case "error":
+          fail(
+            createKickError({
+              type: ErrorType.STREAM,
+              message: `Event stream buffer overflowed (${bufferSize} events)`,
+              context: { bufferSize },
+            }),
+          );
+          return;
+      }
+    }
+
+    buffer.push(value);
+  };
+
+  const next = (): Promise<IteratorResult<T>> => {
+    if (buffer.length > 0) {
+      return Promise.resolve({ value: buffer.shift()!, done: false });
+    }
+    if (failure) {
+      const error = failure;
+      failure = null;
+      return Promise.reject(error);
+    }
+    if (ended) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      waiting = { resolve, reject };
+    });
+  };
+
+  // Breaking out of for-await discards anything still buffered
+  const returnFn = (): Promise<IteratorResult<T>> => {
+    buffer.length = 0;
+    failure = null;
+    end();
+    return Promise.resolve({ value: undefined, done: true });
+  };
+
+  if (signal?.aborted) {
+    end();
+  } else {
+    signal?.addEventListener("abort", end, { once: true });
+  }
+
+  const iterator: EventBuffer<T> = {
+    push,
+    end,
+    next,
+    return: returnFn,
+    [Symbol.asyncIterator]: () => iterator,
+  };
+
+  return iterator;
+};
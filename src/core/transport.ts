@@ -0,0 +1,97 @@
+import { createEmitter } from "./emitter";
+import type {
+  TransportOptions,
+  TransportSocket,
+  TransportSocketEvents,
+  WebSocketFactory,
+} from "../types/transport";
+
+export const SOCKET_OPEN = 1;
+
+let fallbackFactory: WebSocketFactory | null = null;
+
+/**
+ * Set the transport used when the runtime has no native WebSocket, or when
+ * handshake headers are needed. The Node entry registers `ws` here.
+ */
+export const registerFallbackTransport = (factory: WebSocketFactory): void => {
+  fallbackFactory = factory;
+};
+
+/**
+ * Wrap a WHATWG WebSocket (browsers, workers, Deno, Bun, Node 22+)
+ */
+export const createNativeTransport: WebSocketFactory = (url) => {
+  const socket = new globalThis.WebSocket(url);
+  const emitter = createEmitter<TransportSocketEvents>();
+
+  socket.addEventListener("open", () => emitter.emit("open"));
+  socket.addEventListener("message", (event) => {
+    if (typeof event.data === "string") {
+      emitter.emit("message", event.data);
+    }
+  });
+  socket.addEventListener("close", (event) =>
+    emitter.emit("close", event.code, event.reason),
+  );
+  socket.addEventListener("error", () => {
+    // The error event carries no detail on purpose
+    if (emitter.listenerCount("error") > 0) {
+      emitter.emit("error", new Error(`WebSocket connection to ${url} failed`));
+    }
+  });
+
+  return {
+    get readyState() {
+      return socket.readyState;
+    },
+    send: (data) => socket.send(data),
+    close: (code, reason) => socket.close(code, reason),
+    // There's no way to skip the closing handshake, which a dead connection
+    // never completes, so report the close right away and stop listening
+    terminate: () => {
+      socket.close();
+      emitter.emit("close", 1006, "Connection terminated");
+      emitter.removeAllListeners();
+    },
+    on: <E extends keyof TransportSocketEvents>(
+      event: E,
+      listener: (...args: TransportSocketEvents[E]) => void,
+    ) => emitter.on(event, listener),
+    removeAllListeners: () => emitter.removeAllListeners(),
+  };
+};
+
+const hasNativeWebSocket = () => typeof globalThis.WebSocket === "function";
+
+/**
+ * Open a socket with the best transport for the runtime: the native
+ * WebSocket, unless handshake headers or ws options require the fallback
+ * @param url Socket URL
+ * @param options Handshake headers and ws options
+ * @param factory Transport to use instead of picking one
+ */
+export const openTransport = (
+  url: string,
+  options: TransportOptions = {},
+  factory?: WebSocketFactory,
+): TransportSocket => {
+  if (factory) {
+    return factory(url, options);
+  }
+
+  const needsFallback =
+    Object.keys(options.headers ?? {}).length > 0 ||
+    Object.keys(options.wsOptions ?? {}).length > 0;
+
+  if (fallbackFactory && (needsFallback || !hasNativeWebSocket())) {
+    return fallbackFactory(url, options);
+  }
+  if (hasNativeWebSocket()) {
+    return createNativeTransport(url, options);
+  }
+
+  throw new Error(
+    "No WebSocket implementation available; pass websocket.transport",
+  );
+};
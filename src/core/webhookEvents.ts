@@ -0,0 +1,190 @@
+import type { Badge } from "../types/badges";
+import type {
+  MessageData,
+  MessageSender,
+  ParsedMessage,
+} from "../types/events";
+import type { WebhookUser } from "../types/webhooks";
+import { tokenize } from "../utils/tokens";
+
+interface ChatMessageSentPayload {
+  message_id: string;
+  replies_to?: {
+    message_id: string;
+    content: string;
+    sender: WebhookUser;
+  } | null;
+  broadcaster: WebhookUser;
+  sender: WebhookUser;
+  content: string;
+  created_at?: string;
+}
+
+interface ChannelFollowedPayload {
+  broadcaster: WebhookUser;
+  follower: WebhookUser;
+}
+
+interface SubscriptionPayload {
+  broadcaster: WebhookUser;
+  subscriber: WebhookUser;
+  duration: number;
+}
+
+interface SubscriptionGiftsPayload {
+  broadcaster: WebhookUser;
+  gifter: WebhookUser;
+  giftees: WebhookUser[];
+}
+
+interface LivestreamStatusPayload {
+  broadcaster: WebhookUser;
+  is_live: boolean;
+  title: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+interface ModerationBannedPayload {
+  broadcaster: WebhookUser;
+  moderator: WebhookUser;
+  banned_user: WebhookUser;
+  metadata: {
+    reason: string;
+    created_at: string;
+    expires_at: string | null;
+  };
+}
+
+const toUser = (user: WebhookUser) => ({
+  id: user.user_id,
+  username: user.username,
+  slug: user.channel_slug,
+});
+
+const toSender = (user: WebhookUser): MessageSender => ({
+  ...toUser(user),
+  identity: {
+    color: user.identity?.username_color ?? "",
+    badges: (user.identity?.badges ?? []) as Badge[],
+  },
+});
+
+/**
+ * Convert a webhook delivery to the event parseMessage produces for the
+ * same thing on the WebSocket. Webhooks carry no chatroom, channel or
+ * livestream IDs, so those fields are 0.
+ * @param type Kick-Event-Type header, e.g. "chat.message.sent"
+ * @param payload Decoded request body
+ * @param messageId Kick-Event-Message-Id header, used where events need an ID
+ * @returns The parsed event; unsupported types come back as UnknownEvent
+ */
+export const parseWebhookEvent = (
+  type: string,
+  payload: unknown,
+  messageId = "",
+): ParsedMessage => {
+  switch (type) {
+    case "chat.message.sent": {
+      const event = payload as ChatMessageSentPayload;
+      const data: MessageData = {
+        id: event.message_id,
+        chatroom_id: 0,
+        content: event.content,
+        type: event.replies_to ? "reply" : "message",
+        created_at: event.created_at ?? new Date().toISOString(),
+        sender: toSender(event.sender),
+        ...(event.replies_to && {
+          metadata: {
+            original_sender: {
+              id: String(event.replies_to.sender.user_id),
+              username: event.replies_to.sender.username,
+            },
+            original_message: {
+              id: event.replies_to.message_id,
+              content: event.replies_to.content,
+            },
+          },
+        }),
+        tokens: tokenize(event.content),
+      };
+      return { type: "ChatMessage", data };
+    }
+    case "channel.followed": {
+      const event = payload as ChannelFollowedPayload;
+      return {
+        type: "FollowersUpdated",
+        data: {
+          followersCount: 0,
+          channel_id: 0,
+          username: event.follower.username,
+          created_at: Math.floor(Date.now() / 1000),
+          followed: true,
+        },
+      };
+    }
+    case "channel.subscription.new":
+    case "channel.subscription.renewal": {
+      const event = payload as SubscriptionPayload;
+      return {
+        type: "Subscription",
+        data: {
+          chatroom_id: 0,
+          username: event.subscriber.username,
+          months: event.duration,
+        },
+      };
+    }
+    case "channel.subscription.gifts": {
+      const event = payload as SubscriptionGiftsPayload;
+      return {
+        type: "GiftedSubscriptions",
+        data: {
+          chatroom_id: 0,
+          gifted_usernames: event.giftees.map((giftee) => giftee.username),
+          gifter_username: event.gifter.is_anonymous
+            ? "Anonymous"
+            : event.gifter.username,
+        },
+      };
+    }
+    case "livestream.status.updated": {
+      const event = payload as LivestreamStatusPayload;
+      return event.is_live
+        ? {
+            type: "StreamStarted",
+            data: {
+              livestream: {
+                id: 0,
+                channel_id: 0,
+                session_title: event.title,
+                source: null,
+                created_at: event.started_at,
+              },
+            },
+          }
+        : {
+            type: "StreamEnded",
+            data: {
+              livestream: { id: 0, channel: { id: 0, is_banned: false } },
+            },
+          };
+    }
+    case "moderation.banned": {
+      const event = payload as ModerationBannedPayload;
+      return {
+        type: "UserBanned",
+        data: {
+          id: messageId,
+          user: toUser(event.banned_user),
+          banned_by: toUser(event.moderator),
+          ...(event.metadata.expires_at && {
+            expires_at: event.metadata.expires_at,
+          }),
+        },
+      };
+    }
+    default:
+      return { type: "UnknownEvent", data: { event: type, data: payload } };
+  }
+};
@@ -0,0 +1,225 @@
+import { createSign, generateKeyPairSync } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createWebhookHandler } from "./webhooks";
+import { ErrorType, type KickClientEventListener } from "../types/client";
+
+const { publicKey, privateKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+
+const user = (id: number, username: string) => ({
+  user_id: id,
+  username,
+  channel_slug: username,
+  is_verified: false,
+  is_anonymous: false,
+  profile_picture: "",
+  identity: { username_color: "#ffffff", badges: [] },
+});
+
+const chatBody = JSON.stringify({
+  message_id: "0b7a2a8e",
+  broadcaster: user(1, "xqc"),
+  sender: user(2, "viewer"),
+  content: "hi @xqc [emote:1:KEKW]",
+  created_at: "2024-01-01T00:00:00Z",
+});
+
+const signedHeaders = (
+  body: string,
+  {
+    id = "message-1",
+    type = "chat.message.sent",
+    timestamp = new Date().toISOString(),
+  } = {},
+) => ({
+  "kick-event-message-id": id,
+  "kick-event-message-timestamp": timestamp,
+  "kick-event-type": type,
+  "kick-event-signature": createSign("RSA-SHA256")
+    .update(`${id}.${timestamp}.${body}`)
+    .sign(privateKey, "base64"),
+});
+
+describe("createWebhookHandler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("emits a verified delivery as the socket's event", async () => {
+    const handler = createWebhookHandler({ publicKey });
+    const listener = vi.fn();
+    handler.on("ChatMessage", listener);
+
+    const result = await handler.handle(signedHeaders(chatBody), chatBody);
+
+    expect(result).toEqual({ status: 200 });
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener.mock.calls[0]![0]).toMatchObject({
+      id: "0b7a2a8e",
+      content: "hi @xqc [emote:1:KEKW]",
+      created_at: "2024-01-01T00:00:00Z",
+      sender: { id: 2, username: "viewer", slug: "viewer" },
+      tokens: [
+        { type: "text", text: "hi " },
+        { type: "mention", username: "xqc" },
+        { type: "text", text: " " },
+        { type: "emote", id: "1", name: "KEKW" },
+      ],
+    });
+  });
+
+  it("accepts the body as bytes", async () => {
+    const handler = createWebhookHandler({ publicKey });
+    const result = await handler.handle(
+      signedHeaders(chatBody),
+      new TextEncoder().encode(chatBody),
+    );
+    expect(result.status).toBe(200);
+  });
+
+  it("rejects a bad signature", async () => {
+    const onError = vi.fn();
+    const handler = createWebhookHandler({ publicKey, onError });
+    const listener = vi.fn();
+    handler.on("ChatMessage", listener);
+
+    const result = await handler.handle(
+      signedHeaders(chatBody),
+      chatBody.replace("hi", "ha"),
+    );
+
+    expect(result.status).toBe(401);
+    expect(listener).not.toHaveBeenCalled();
+    expect(onError.mock.calls[0]![0]).toMatchObject({
+      type: ErrorType.WEBHOOK,
+      code: 401,
+    });
+  });
+
+  it("rejects deliveries missing Kick-Event headers", async () => {
+    const handler = createWebhookHandler({ publicKey });
+    const headers: Record<string, string> = signedHeaders(chatBody);
+    delete headers["kick-event-signature"];
+
+    expect((await handler.handle(headers, chatBody)).status).toBe(400);
+  });
+
+  it("rejects timestamps outside the replay window", async () => {
+    const handler = createWebhookHandler({ publicKey, tolerance: 60_000 });
+    const stale = new Date(Date.now() - 61_000).toISOString();
+    const early = new Date(Date.now() + 61_000).toISOString();
+
+    const deliver = (timestamp: string) =>
+      handler.handle(signedHeaders(chatBody, { timestamp }), chatBody);
+
+    expect((await deliver(stale)).status).toBe(401);
+    expect((await deliver(early)).status).toBe(401);
+  });
+
+  it("rejects a message ID it has already accepted", async () => {
+    const handler = createWebhookHandler({ publicKey, tolerance: 60_000 });
+    const listener = vi.fn();
+    handler.on("ChatMessage", listener);
+    const headers = signedHeaders(chatBody);
+
+    expect((await handler.handle(headers, chatBody)).status).toBe(200);
+    expect((await handler.handle(headers, chatBody)).status).toBe(409);
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it("forgets message IDs once they leave the replay window", async () => {
+    const handler = createWebhookHandler({ publicKey, tolerance: 60_000 });
+    await handler.handle(signedHeaders(chatBody), chatBody);
+
+    vi.advanceTimersByTime(61_000);
+    const result = await handler.handle(signedHeaders(chatBody), chatBody);
+    expect(result.status).toBe(200);
+  });
+
+  it("rejects a signed body that isn't JSON", async () => {
+    const handler = createWebhookHandler({ publicKey });
+    expect((await handler.handle(signedHeaders("{"), "{")).status).toBe(400);
+  });
+
+  it("accepts a retry of a delivery that failed to parse", async () => {
+    const onError = vi.fn();
+    const handler = createWebhookHandler({ publicKey, onError });
+    const listener = vi.fn();
+    handler.on("ChatMessage", listener);
+
+    const malformed = await handler.handle(signedHeaders("{"), "{");
+    const retried = await handler.handle(signedHeaders(chatBody), chatBody);
+
+    expect([malformed.status, retried.status]).toEqual([400, 200]);
+    expect(listener).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0]![0]).toBeInstanceOf(Error);
+    expect(onError.mock.calls[0]![0]).toMatchObject({
+      type: ErrorType.WEBHOOK,
+      code: 400,
+    });
+  });
+
+  it("emits timestamps as ISO strings", async () => {
+    const handler = createWebhookHandler({ publicKey });
+    const started = vi.fn<KickClientEventListener<"StreamStarted">>();
+    const banned = vi.fn<KickClientEventListener<"UserBanned">>();
+    handler.on("StreamStarted", started);
+    handler.on("UserBanned", banned);
+
+    const liveBody = JSON.stringify({
+      broadcaster: user(1, "xqc"),
+      is_live: true,
+      title: "live",
+      started_at: "2024-01-01T00:00:00Z",
+      ended_at: null,
+    });
+    await handler.handle(
+      signedHeaders(liveBody, { id: "m1", type: "livestream.status.updated" }),
+      liveBody,
+    );
+
+    const banBody = JSON.stringify({
+      broadcaster: user(1, "xqc"),
+      moderator: user(3, "mod"),
+      banned_user: user(2, "viewer"),
+      metadata: {
+        reason: "spam",
+        created_at: "2024-01-01T00:00:00Z",
+        expires_at: "2024-01-01T00:10:00Z",
+      },
+    });
+    await handler.handle(
+      signedHeaders(banBody, { id: "m2", type: "moderation.banned" }),
+      banBody,
+    );
+
+    expect(started.mock.calls[0]![0].livestream.created_at).toBe(
+      "2024-01-01T00:00:00Z",
+    );
+    expect(banned.mock.calls[0]![0]).toEqual({
+      id: "m2",
+      user: { id: 2, username: "viewer", slug: "viewer" },
+      banned_by: { id: 3, username: "mod", slug: "mod" },
+      expires_at: "2024-01-01T00:10:00Z",
+    });
+  });
+
+  it("emits unsupported types as UnknownEvent", async () => {
+    const handler = createWebhookHandler({ publicKey });
+    const listener = vi.fn();
+    handler.on("UnknownEvent", listener);
+
+    const body = JSON.stringify({ kicks: 100 });
+    await handler.handle(signedHeaders(body, { type: "kicks.gifted" }), body);
+
+    expect(listener).toHaveBeenCalledWith({
+      event: "kicks.gifted",
+      data: { kicks: 100 },
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { createVerify } from "crypto";
+import type { IncomingHttpHeaders, IncomingMessage } from "http";
+import { createEmitter } from "./emitter";
+import { createListenerRegistry } from "./listeners";
+import { createMiddlewarePipeline, plainEmoteMiddleware } from "./middleware";
+import { parseWebhookEvent } from "./webhookEvents";
+import { resolveLogger } from "../utils/logger";
+import { parseJSON } from "../utils/utils";
+import { createKickError } from "../utils/errors";
+import { ErrorType, type KickClientEvents } from "../types/client";
+import type { KickEventMap, ParsedMessage } from "../types/events";
+import type {
+  WebhookHandler,
+  WebhookHandlerOptions,
+  WebhookResult,
+} from "../types/webhooks";
+
+const DEFAULT_TOLERANCE = 5 * 60 * 1000;
+
+// Listener arguments for each Kick event
+type WebhookEmitterEvents = {
+  [K in keyof KickEventMap]: [data: KickClientEvents[K]];
+};
+
+const header = (headers: IncomingHttpHeaders, name: string) => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const readBody = async (request: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request as AsyncIterable<Buffer | string>) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Create a receiver for Kick's signed webhooks that emits the same events
+ * as a client, so listeners work with either ingestion
+ * @param options Public key, replay window and logging
+ * @returns Handler usable as an http, Express or Fastify request handler
+ */
+export const createWebhookHandler = ({
+  publicKey,
+  tolerance = DEFAULT_TOLERANCE,
+  logger: loggerOption,
+  plainEmote = false,
+  onError,
+}: WebhookHandlerOptions): WebhookHandler => {
+  const logger = resolveLogger(loggerOption);
+  const emitter = createEmitter<WebhookEmitterEvents>();
+  const { addListener, removeListener, removeAllListeners } =
+    createListenerRegistry(emitter);
+  // Message IDs already accepted, mapped to when they leave the replay window
+  const seen = new Map<string, number>();
+
+  const pipeline = createMiddlewarePipeline({
+    logger,
+    emit: (context) => {
+      // Webhook events are all Kick events, with data matching their type
+      emitter.emit(
+        context.type as keyof KickEventMap,
+        ...([context.data] as WebhookEmitterEvents[keyof KickEventMap]),
+      );
+    },
+    onError: (error, context) => {
+      const message = `Middleware failed for ${context.type}`;
+      logger.error(message, error);
+      onError?.(
+        createKickError({
+          type: ErrorType.MIDDLEWARE,
+          message,
+          originalError: error,
+        }),
+      );
+    },
+    onListenerError: (error, context) => {
+      const message = `Listener for ${context.type} threw`;
+      logger.error(message, error);
+      onError?.(
+        createKickError({
+          type: ErrorType.LISTENER,
+          message,
+          originalError: error,
+        }),
+      );
+    },
+  });
+
+  if (plainEmote) {
+    pipeline.use(plainEmoteMiddleware);
+  }
+
+  const reject = (
+    status: number,
+    message: string,
+    context: Record<string, unknown>,
+    originalError?: Error,
+  ): WebhookResult => {
+    logger.warn(`Rejected webhook: ${message}`);
+    onError?.(
+      createKickError({
+        type: ErrorType.WEBHOOK,
+        message,
+        originalError,
+        code: status,
+        context,
+      }),
+    );
+    return { status, message };
+  };
+
+  const verifySignature = (
+    messageId: string,
+    timestamp: string,
+    body: string,
+    signature: string,
+  ) => {
+    try {
+      return createVerify("RSA-SHA256")
+        .update(`${messageId}.${timestamp}.${body}`)
+        .verify(publicKey, signature, "base64");
+    } catch (error) {
+      logger.debug("Signature verification failed:", error);
+      return false;
+    }
+  };
+
+  const verify = (
+    headers: IncomingHttpHeaders,
+    rawBody: string | Uint8Array,
+  ): WebhookResult => {
+    const body =
+      typeof rawBody === "string"
+        ? rawBody
+        : Buffer.from(rawBody).toString("utf8");
+    const messageId = header(headers, "kick-event-message-id");
+    const timestamp = header(headers, "kick-event-message-timestamp");
+    const signature = header(headers, "kick-event-signature");
+    const type = header(headers, "kick-event-type");
+    if (!messageId || !timestamp || !signature || !type) {
+      return reject(400, "Missing Kick-Event headers", { messageId, type });
+    }
+
+    const context = { messageId, type, timestamp };
+    const sentAt = Date.parse(timestamp);
+    if (Number.isNaN(sentAt)) {
+      return reject(400, "Invalid Kick-Event-Message-Timestamp", context);
+    }
+
+    if (!verifySignature(messageId, timestamp, body, signature)) {
+      return reject(401, "Invalid Kick-Event-Signature", context);
+    }
+
+    const now = Date.now();
+    if (Math.abs(now - sentAt) > tolerance) {
+      return reject(
+        401,
+        "Message timestamp outside the replay window",
+        context,
+      );
+    }
+
+    for (const [id, expiresAt] of seen) {
+      if (expiresAt <= now) {
+        seen.delete(id);
+      }
+    }
+    if (seen.has(messageId)) {
+      return reject(409, "Message already received", context);
+    }
+
+    // Only a delivery that parses counts as received, so Kick can retry it
+    let parsed: ParsedMessage;
+    try {
+      parsed = parseWebhookEvent(type, parseJSON(body), messageId);
+    } catch (error) {
+      return reject(
+        400,
+        "Body is not a valid event payload",
+        context,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+
+    seen.set(messageId, sentAt + tolerance);
+    logger.debug(`Webhook ${type} received as ${parsed.type}`);
+    pipeline.push({ ...parsed, channel: null, state: {} });
+    return { status: 200 };
+  };
+
+  const handle = (
+    headers: IncomingHttpHeaders,
+    rawBody: string | Uint8Array,
+  ): Promise<WebhookResult> => Promise.resolve(verify(headers, rawBody));
+
+  const respond = (
+    response: { statusCode: number; end: (body?: string) => unknown },
+    { status, message }: WebhookResult,
+  ) => {
+    response.statusCode = status;
+    response.end(message);
+  };
+
+  return {
+    on: (event, listener) => {
+      addListener(event, listener, false);
+    },
+    off: (event, listener) => {
+      removeListener(event, listener);
+    },
+    once: (event, listener) => {
+      addListener(event, listener, true);
+    },
+    removeAllListeners,
+    use: pipeline.use,
+    handle,
+
+    listener: (request, response) => {
+      if (request.method !== "POST") {
+        respond(response, { status: 405, message: "Method not allowed" });
+        return;
+      }
+
+      readBody(request)
+        .then((body) => handle(request.headers, body))
+        .then((result) => respond(response, result))
+        .catch((error) => {
+          logger.error("Failed to read webhook request:", error);
+          respond(response, { status: 500 });
+        });
+    },
+
+    express: (request, response, next) => {
+      // Bodies already parsed into objects can't be verified
+      const { body } = request;
+      if (
+        body !== undefined &&
+        typeof body !== "string" &&
+        !(body instanceof Uint8Array)
+      ) {
+        respond(response, {
+          status: 400,
+          message:
+            'Raw body required; use express.raw({ type: "application/json" })',
+        });
+        return;
+      }
+
+      (body !== undefined ? Promise.resolve(body) : readBody(request))
+        .then((rawBody) => handle(request.headers, rawBody))
+        .then((result) => respond(response, result))
+        .catch((error) =>
+          next ? next(error) : respond(response, { status: 500 }),
+        );
+    },
+
+    fastify: async (request, reply) => {
+      const { body } = request;
+      const result =
+        typeof body === "string" || body instanceof Uint8Array
+          ? await handle(request.headers, body)
+          : {
+              status: 400,
+              message: "Raw body required; parse application/json as a string",
+            };
+      reply.code(result.status).send(result.message);
+    },
+  };
+};
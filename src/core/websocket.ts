@@ -1,21 +1,75 @@
-import WebSocket from "ws";
-import { URLSearchParams } from "url";
+import { openTransport } from "./transport";
 import type { WebSocketConfig } from "../types/client";
+import type { TransportSocket } from "../types/transport";
 
 const DEFAULT_BASE_URL = "wss://ws-us2.pusher.com/app/32cbd69e4b950bf97679";
 const DEFAULT_PUSHER_APP_KEY = "32cbd69e4b950bf97679";
 
 interface CreateWebSocketOptions {
-  chatroomId: number;
+  /** Chatroom to subscribe to as soon as the socket opens */
+  chatroomId?: number;
   config?: WebSocketConfig;
 }
 
 /**
- * Create a WebSocket connection to Kick's chat system
+ * Pusher channel name carrying a chatroom's chat events
+ */
+export const chatroomChannel = (chatroomId: number): string =>
+  `chatrooms.${chatroomId}.v2`;
+
+/**
+ * Pusher channel name carrying a channel's stream lifecycle events
+ */
+export const channelEventsChannel = (channelId: number): string =>
+  `channel.${channelId}`;
+
+/**
+ * Send a Pusher protocol event
+ */
+export const sendPusherEvent = (
+  socket: TransportSocket,
+  event: string,
+  data: Record<string, unknown> = {},
+): void => {
+  socket.send(JSON.stringify({ event, data }));
+};
+
+/**
+ * Send a pusher:subscribe frame for a channel
+ */
+export const subscribeChannel = (
+  socket: TransportSocket,
+  channel: string,
+  auth = "",
+  channelData?: string,
+): void => {
+  sendPusherEvent(socket, "pusher:subscribe", {
+    auth,
+    channel,
+    ...(channelData !== undefined && { channel_data: channelData }),
+  });
+};
+
+/**
+ * Whether a Pusher channel needs an auth signature to subscribe
+ */
+export const isAuthenticatedChannel = (channel: string): boolean =>
+  channel.startsWith("private-") || channel.startsWith("presence-");
+
+/**
+ * Send a pusher:unsubscribe frame for a channel
+ */
+export const unsubscribeChannel = (socket: TransportSocket, channel: string): void => {
+  sendPusherEvent(socket, "pusher:unsubscribe", { channel });
+};
+
+/**
+ * Create a WebSocket connection to Kick's chat system, over the native
+ * WebSocket where the runtime has one and `ws` otherwise
  * @param options Configuration options for the WebSocket connection
- * @returns WebSocket instance configured for Kick chat with heartbeat support
+ * @returns Socket configured for Kick chat
  */
-export const createWebSocket = ({ chatroomId, config = {} }: CreateWebSocketOptions): WebSocket => {
+export const createWebSocket = ({ chatroomId, config = {} }: CreateWebSocketOptions): TransportSocket => {
   const {
     pusherUrl = DEFAULT_BASE_URL,
     pusherAppKey,
@@ -24,7 +78,8 @@ export const createWebSocket = ({ chatroomId, config = {} }: CreateWebSocketOpti
     version = "7.4.0",
     flash = "false",
     wsOptions = {},
-    headers = {}
+    headers = {},
+    transport,
   } = config;
 
   // Extract app key from URL if not provided
@@ -49,30 +104,17 @@ export const createWebSocket = ({ chatroomId, config = {} }: CreateWebSocketOpti
   
   const url = `${baseUrl}?${urlParams.toString()}`;
 
-  // Merge custom headers with WebSocket options
-  const socketOptions: WebSocket.ClientOptions = {
-    ...wsOptions,
-    headers: {
-      ...wsOptions.headers,
-      ...headers
-    }
-  };
-
-  const socket = new WebSocket(url, socketOptions);
-
-  // Set up heartbeat support
-  socket.on("open", () => {
-    const connect = JSON.stringify({
-      event: "pusher:subscribe",
-      data: { auth: "", channel: `chatrooms.${chatroomId}.v2` },
-    });
-    socket.send(connect);
-  });
+  const socket = openTransport(
+    url,
+    { headers, wsOptions: wsOptions as Record<string, unknown> },
+    transport,
+  );
 
-  // Handle ping frames for heartbeat
-  socket.on("ping", (data) => {
-    socket.pong(data);
-  });
+  if (chatroomId !== undefined) {
+    socket.on("open", () => {
+      subscribeChannel(socket, chatroomChannel(chatroomId));
+    });
+  }
 
   return socket;
 };
@@ -81,6 +123,6 @@ export const createWebSocket = ({ chatroomId, config = {} }: CreateWebSocketOpti
  * Legacy function for backward compatibility
  * @deprecated Use createWebSocket with options object instead
  */
-export const createWebSocketLegacy = (chatroomId: number): WebSocket => {
+export const createWebSocketLegacy = (chatroomId: number): TransportSocket => {
   return createWebSocket({ chatroomId });
 };
@@ -0,0 +1,72 @@
+import WebSocket from "ws";
+import { registerFallbackTransport } from "./transport";
+import type { WebSocketFactory } from "../types/transport";
+
+// ws hands over text frames as a Buffer, or fragments of one
+const rawDataToString = (data: WebSocket.RawData): string => {
+  if (Array.isArray(data)) {
+    return Buffer.concat(data).toString();
+  }
+  return data instanceof ArrayBuffer
+    ? Buffer.from(data).toString()
+    : data.toString();
+};
+
+/**
+ * Transport over the `ws` package, for Node versions without a native
+ * WebSocket and for handshakes that need custom headers
+ */
+export const createWsTransport: WebSocketFactory = (
+  url,
+  { headers, wsOptions },
+) => {
+  const options = (wsOptions ?? {}) as WebSocket.ClientOptions;
+  const socket = new WebSocket(url, {
+    ...options,
+    headers: { ...options.headers, ...headers },
+  });
+
+  // Answer ping frames for heartbeat
+  socket.on("ping", (data) => {
+    socket.pong(data);
+  });
+
+  return {
+    get readyState() {
+      return socket.readyState;
+    },
+    send: (data) => socket.send(data),
+    close: (code, reason) => socket.close(code, reason),
+    terminate: () => socket.terminate(),
+    on: (event, listener) => {
+      switch (event) {
+        case "open":
+          socket.on("open", listener as () => void);
+          break;
+        case "message":
+          socket.on("message", (data) =>
+            (listener as (data: string) => void)(rawDataToString(data)),
+          );
+          break;
+        case "close":
+          socket.on("close", (code, reason) =>
+            (listener as (code: number, reason: string) => void)(
+              code,
+              reason.toString(),
+            ),
+          );
+          break;
+        case "error":
+          socket.on("error", listener as (error: Error) => void);
+          break;
+      }
+    },
+    removeAllListeners: () => {
+      socket.removeAllListeners();
+      // Keep a handler so a late error doesn't throw from ws
+      socket.on("error", () => {});
+    },
+  };
+};
+
+registerFallbackTransport(createWsTransport);
@@ -1,45 +1,41 @@
-import { createClient } from "./client/client";
-import { createWebSocket } from "./core/websocket";
-import { parseMessage } from "./core/messageHandling";
-import { 
-  ConnectionState,
-  ErrorType,
-  type KickClient,
-  type ClientOptions,
-  type WebSocketConfig,
-  type Logger,
-  type ConnectionOptions,
-  type KickError,
-  type EventHandler,
-} from "./types/client";
+// Registers `ws` as the transport for runtimes without a native WebSocket
+import { createWsTransport } from "./core/wsTransport";
+import {
+  createFrameRecorder,
+  createReplaySource,
+  type RecordedFrame,
+  type FrameRecorderOptions,
+  type ReplaySourceOptions,
+} from "./core/recording";
+import { toReadable } from "./utils/readable";
+import { createWebhookHandler } from "./core/webhooks";
+import { parseWebhookEvent } from "./core/webhookEvents";
 
-// Export main functions
-export { createClient, ConnectionState, ErrorType };
+// Everything that runs on any runtime
+export * from "./browser";
 
-// Export utility functions
-export { createWebSocket, parseMessage };
+// Export Node-only utilities
+export {
+  createWsTransport,
+  createFrameRecorder,
+  createReplaySource,
+  toReadable,
+  createWebhookHandler,
+  parseWebhookEvent,
+};
 
-// Export all types for parent application use
-export type { 
-  KickClient,
-  ClientOptions,
-  WebSocketConfig,
-  Logger,
-  ConnectionOptions,
-  KickError,
-  EventHandler,
+export type {
+  RecordedFrame,
+  FrameRecorderOptions,
+  ReplaySourceOptions,
 };
 
-// Re-export event types from events module
+// Re-export webhook types
 export type {
-  MessageData,
-  ChatMessage,
-  Subscription,
-  GiftedSubscriptionsEvent,
-  StreamHostEvent,
-  UserBannedEvent,
-  UserUnbannedEvent,
-  PinnedMessageCreatedEvent,
-  MessageDeletedEvent,
-  MessageEvent,
-} from "./types/events";
+  WebhookUser,
+  WebhookHandlerOptions,
+  WebhookResult,
+  WebhookHandler,
+  FastifyWebhookRequest,
+  FastifyWebhookReply,
+} from "./types/webhooks";
@@ -0,0 +1,13 @@
+import { createMockKickServer } from "./mockServer";
+
+// Export test utilities
+export { createMockKickServer };
+
+export type {
+  MockKickServer,
+  MockKickServerOptions,
+  MockChannel,
+  MockUser,
+  MockChatMessage,
+  MockBanOptions,
+} from "./mockServer";
@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockKickServer, type MockKickServer } from "./mockServer";
+import {
+  createChannelResolver,
+  createClient,
+  ErrorType,
+  type ClientOptions,
+  type KickClient,
+  type KickClientEvents,
+} from "../index";
+
+const CHATROOM = "chatrooms.668.v2";
+
+const nextEvent = <K extends keyof KickClientEvents>(
+  client: KickClient,
+  event: K,
+) =>
+  new Promise<KickClientEvents[K]>((resolve) => {
+    client.once(event, resolve as (data: KickClientEvents[K]) => void);
+  });
+
+describe("createMockKickServer with a client", () => {
+  let server: MockKickServer;
+  let client: KickClient;
+
+  const connect = async (options: ClientOptions = {}) => {
+    client = createClient("xqc", {
+      websocket: { pusherUrl: server.pusherUrl },
+      resolver: createChannelResolver({ baseUrl: server.channelsUrl }),
+      ...options,
+      connection: { reconnectPolicy: () => 10, ...options.connection },
+    });
+    // Connection errors are expected while sockets are being dropped
+    client.on("error", () => {});
+    await client.connect();
+    await server.waitForSubscription(CHATROOM);
+  };
+
+  beforeEach(async () => {
+    server = await createMockKickServer({
+      channels: { xqc: { chatroomId: 668, channelId: 1 } },
+    });
+  });
+
+  afterEach(async () => {
+    client?.disconnect();
+    await server.close();
+  });
+
+  it("delivers chat messages with tokens", async () => {
+    await connect();
+    const received = nextEvent(client, "ChatMessage");
+    server.emitChatMessage({
+      content: "hi @xqc",
+      sender: { username: "viewer" },
+    });
+
+    expect(await received).toMatchObject({
+      content: "hi @xqc",
+      chatroom_id: 668,
+      sender: { username: "viewer" },
+      tokens: [
+        { type: "text", text: "hi " },
+        { type: "mention", username: "xqc" },
+      ],
+    });
+  });
+
+  it("reconnects and resubscribes after the connection drops", async () => {
+    await connect();
+    const reconnecting = nextEvent(client, "reconnecting");
+    const reconnected = nextEvent(client, "reconnected");
+    server.dropConnection();
+
+    expect(await reconnecting).toEqual({ attempt: 1, delay: 10 });
+    expect(await reconnected).toEqual({ attempt: 1, delay: 10 });
+    await server.waitForSubscription(CHATROOM);
+    expect(server.getConnectionCount()).toBe(1);
+
+    const received = nextEvent(client, "ChatMessage");
+    server.emitChatMessage({ content: "still here" });
+    expect((await received).content).toBe("still here");
+  });
+
+  it("reconnects when pings go unanswered", async () => {
+    await connect({
+      connection: { heartbeatInterval: 50, pongTimeout: 100 },
+    });
+    server.setRespondToPings(false);
+    const reconnecting = nextEvent(client, "reconnecting");
+
+    await reconnecting;
+    server.setRespondToPings(true);
+    await nextEvent(client, "reconnected");
+    await server.waitForSubscription(CHATROOM);
+
+    expect(client.isConnected()).toBe(true);
+    expect(server.getConnectionCount()).toBe(1);
+  });
+
+  it("keeps the connection while pongs arrive", async () => {
+    await connect({
+      connection: { heartbeatInterval: 50, pongTimeout: 100 },
+    });
+    let reconnects = 0;
+    client.on("reconnecting", () => reconnects++);
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect(reconnects).toBe(0);
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it("reports listener exceptions through onError", async () => {
+    const onError = vi.fn();
+    await connect({ onError });
+    const received = nextEvent(client, "ChatMessage");
+    client.on("ChatMessage", () => {
+      throw new Error("listener failed");
+    });
+
+    server.emitChatMessage({ content: "hi" });
+    await received;
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: ErrorType.LISTENER,
+        message: "Listener for ChatMessage threw",
+        originalError: new Error("listener failed"),
+      }),
+    );
+  });
+
+  it("feeds event streams when a listener throws", async () => {
+    await connect({ onError: () => {} });
+    const messages = client.events("ChatMessage");
+    client.on("ChatMessage", () => {
+      throw new Error("listener failed");
+    });
+
+    server.emitChatMessage({ content: "hi" });
+    const next = await messages.next();
+    await messages.return?.();
+
+    expect(next).toMatchObject({ value: { content: "hi" }, done: false });
+  });
+
+  it("tracks chatroom state from the lookup and updates", async () => {
+    server.addChannel("xqc", {
+      chatroomId: 668,
+      channelId: 1,
+      chatroom: { slow_mode: true, message_interval: 3 },
+    });
+    await connect();
+    expect(client.getChatroomState()).toMatchObject({
+      slowMode: true,
+      messageInterval: 3,
+    });
+
+    const changed = nextEvent(client, "ChatroomStateChanged");
+    server.emit(
+      "App\\Events\\ChatroomUpdatedEvent",
+      {
+        id: 668,
+        slow_mode: { enabled: false, message_interval: 3 },
+        subscribers_mode: { enabled: true },
+        followers_mode: { enabled: false, min_duration: 0 },
+        emotes_mode: { enabled: false },
+      },
+      CHATROOM,
+    );
+
+    expect((await changed).changes).toEqual({
+      slowMode: { previous: true, current: false },
+      subscribersMode: { previous: false, current: true },
+    });
+  });
+
+  it("sends messages through the API", async () => {
+    await connect({
+      auth: () => "token",
+      http: { baseUrl: server.apiUrl, retryDelay: 10 },
+      messageStore: true,
+    });
+    server.rateLimit(1);
+
+    const sent = await client.send("hello");
+    const sentId = String(sent?.id);
+    const reply = await client.send("hi back", { replyTo: sentId });
+
+    expect(server.getSentMessages()).toEqual([
+      expect.objectContaining({ id: sentId, content: "hello" }),
+      expect.objectContaining({
+        id: reply?.id,
+        metadata: expect.objectContaining({
+          original_message: { id: sentId, content: "hello" },
+        }) as unknown,
+      }),
+    ]);
+    await expect(
+      client.send("hi", { replyTo: "missing" }),
+    ).rejects.toBeInstanceOf(Error);
+  });
+
+  it("confirms moderation actions through the API", async () => {
+    await connect({
+      auth: () => "token",
+      http: { baseUrl: server.apiUrl, retryDelay: 10 },
+      messageStore: true,
+    });
+
+    const timedOut = await client.timeout("troll", 5);
+    expect(timedOut?.user.username).toBe("troll");
+    expect(typeof timedOut?.expires_at).toBe("string");
+    expect(await client.unban("troll")).toMatchObject({
+      user: { username: "troll" },
+    });
+    expect(await client.ban("troll", "spam", { confirm: false })).toBeNull();
+
+    const received = nextEvent(client, "ChatMessage");
+    const { id } = server.emitChatMessage({ content: "pin me" });
+    await received;
+    expect(await client.pinMessage(id, 60)).toMatchObject({
+      message: { id, content: "pin me" },
+      duration: "60",
+    });
+    expect(await client.deleteMessage(id)).toMatchObject({ message: { id } });
+  });
+
+  it("closes every socket on disconnect", async () => {
+    await connect();
+    client.disconnect();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(server.getConnectionCount()).toBe(0);
+  });
+});
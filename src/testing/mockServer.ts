@@ -0,0 +1,628 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import { chatroomChannel } from "../core/websocket";
+import type {
+  MessageData,
+  MessageDeletedEvent,
+  UserBannedEvent,
+  UserUnbannedEvent,
+} from "../types/events";
+import type { Chatroom } from "../types/channels";
+
+const MOCK_APP_KEY = "mock-app-key";
+
+export interface MockChannel {
+  chatroomId: number;
+  channelId: number;
+  /** Chatroom settings returned by the channel lookup */
+  chatroom?: Partial<Chatroom>;
+}
+
+export interface MockKickServerOptions {
+  /** Port to listen on, 0 picks a free one (default: 0) */
+  port?: number;
+  /** Host to listen on (default: 127.0.0.1) */
+  host?: string;
+  /** activity_timeout in seconds sent in pusher:connection_established (default: 120) */
+  activityTimeout?: number;
+  /** Channels served by the lookup endpoint, keyed by slug */
+  channels?: Record<string, Partial<MockChannel>>;
+  /** Bearer token API requests must carry; any token is accepted when omitted */
+  token?: string;
+  /** User that messages sent through the API appear from */
+  user?: Partial<MockUser>;
+}
+
+export interface MockUser {
+  id: number;
+  username: string;
+  slug: string;
+}
+
+export interface MockChatMessage {
+  content: string;
+  /** Channel slug, defaults to the only registered channel */
+  channel?: string;
+  id?: string;
+  sender?: Partial<MockUser> & {
+    identity?: MessageData["sender"]["identity"];
+  };
+  metadata?: MessageData["metadata"];
+}
+
+export interface MockBanOptions {
+  channel?: string;
+  /** Moderator issuing the ban */
+  by?: string | Partial<MockUser>;
+  /** Timeout length in minutes; omit for a permanent ban */
+  duration?: number;
+}
+
+export interface MockKickServer {
+  /** Pass as WebSocketConfig.pusherUrl */
+  pusherUrl: string;
+  /** Pass as ChannelResolverOptions.baseUrl */
+  channelsUrl: string;
+  /** Pass as HttpOptions.baseUrl */
+  apiUrl: string;
+  /** Register a channel with the lookup endpoint, assigning IDs if omitted */
+  addChannel: (name: string, channel?: Partial<MockChannel>) => MockChannel;
+  /** Make lookups for a channel fail with an HTTP status, or succeed again with null */
+  failChannelLookup: (name: string, status: number | null) => void;
+  /** Send a Kick event to every socket subscribed to a Pusher channel */
+  emit: (event: string, data: unknown, channel: string) => void;
+  /** Send a chat message to a channel's chatroom */
+  emitChatMessage: (message: MockChatMessage) => Omit<MessageData, "tokens">;
+  /** Ban or time out a user in a channel's chatroom */
+  ban: (
+    user: string | Partial<MockUser>,
+    options?: MockBanOptions,
+  ) => UserBannedEvent;
+  /** Unban a user in a channel's chatroom */
+  unban: (
+    user: string | Partial<MockUser>,
+    options?: Omit<MockBanOptions, "duration">,
+  ) => UserUnbannedEvent;
+  /** Delete a message from a channel's chatroom */
+  deleteMessage: (messageId: string, channel?: string) => MessageDeletedEvent;
+  /** Messages sent through the API, oldest first */
+  getSentMessages: () => Omit<MessageData, "tokens">[];
+  /** Answer the next API requests with 429, optionally with a Retry-After in seconds */
+  rateLimit: (requests: number, retryAfter?: number) => void;
+  /** Send a pusher:error frame to every connected socket */
+  emitPusherError: (code: number, message: string) => void;
+  /** Stop or resume answering pusher:ping, to simulate a half-open connection */
+  setRespondToPings: (respond: boolean) => void;
+  /** Abruptly terminate every connected socket */
+  dropConnection: () => void;
+  /** Pusher channels currently subscribed to, across all sockets */
+  getSubscriptions: () => string[];
+  /** Resolve once some socket subscribes to a Pusher channel */
+  waitForSubscription: (channel: string, timeout?: number) => Promise<void>;
+  /** Number of open sockets */
+  getConnectionCount: () => number;
+  /** Stop the server */
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a local server speaking the Pusher protocol, plus a stub of Kick's
+ * channel lookup endpoint, for testing clients without the network
+ * @param options Server options
+ * @returns Running server with helpers to drive events
+ */
+export const createMockKickServer = async ({
+  port = 0,
+  host = "127.0.0.1",
+  activityTimeout = 120,
+  channels: initialChannels = {},
+  token,
+  user: apiUser = { username: "mockbot" },
+}: MockKickServerOptions = {}): Promise<MockKickServer> => {
+  const channels = new Map<string, MockChannel>();
+  const failedLookups = new Map<string, number>();
+  const subscriptions = new Map<WebSocket, Set<string>>();
+  const subscriptionWaiters = new Map<string, Set<() => void>>();
+  const sentMessages: Omit<MessageData, "tokens">[] = [];
+  let respondToPings = true;
+  let rateLimited = {
+    requests: 0,
+    retryAfter: undefined as number | undefined,
+  };
+  let nextId = 1;
+
+  const addChannel = (name: string, channel: Partial<MockChannel> = {}) => {
+    const mockChannel: MockChannel = {
+      chatroomId: channel.chatroomId ?? nextId++,
+      channelId: channel.channelId ?? nextId++,
+      chatroom: channel.chatroom,
+    };
+    channels.set(name, mockChannel);
+    return mockChannel;
+  };
+
+  for (const [name, channel] of Object.entries(initialChannels)) {
+    addChannel(name, channel);
+  }
+
+  const getChannel = (name?: string): MockChannel => {
+    if (name === undefined) {
+      if (channels.size !== 1) {
+        throw new Error("A channel must be given when several are registered");
+      }
+      return channels.values().next().value!;
+    }
+
+    const channel = channels.get(name);
+    if (!channel) {
+      throw new Error(`Unknown mock channel ${name}`);
+    }
+    return channel;
+  };
+
+  const toUser = (user: string | Partial<MockUser>): MockUser => {
+    if (typeof user === "string") {
+      return { id: nextId++, username: user, slug: user.toLowerCase() };
+    }
+    const username = user.username ?? `user${nextId}`;
+    return {
+      id: user.id ?? nextId++,
+      username,
+      slug: user.slug ?? username.toLowerCase(),
+    };
+  };
+
+  const findByChatroomId = (chatroomId: number) =>
+    [...channels.entries()].find(
+      ([, registered]) => registered.chatroomId === chatroomId,
+    );
+
+  // Keep one ID for the API user across messages
+  const apiSender = toUser(apiUser);
+
+  const send = (
+    socket: WebSocket,
+    event: string,
+    data: unknown,
+    channel?: string,
+  ) => {
+    socket.send(
+      JSON.stringify({
+        event,
+        data: typeof data === "string" ? data : JSON.stringify(data),
+        ...(channel !== undefined && { channel }),
+      }),
+    );
+  };
+
+  const handleLookup = (request: IncomingMessage, response: ServerResponse) => {
+    const match = request.url?.match(/^\/api\/v1\/channels\/([^/?]+)/);
+    if (request.method !== "GET" || !match) {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const name = decodeURIComponent(match[1]!);
+    const failure = failedLookups.get(name);
+    const channel = channels.get(name);
+    if (failure !== undefined || !channel) {
+      response.writeHead(failure ?? 404).end();
+      return;
+    }
+
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(
+      JSON.stringify({
+        id: channel.channelId,
+        slug: name,
+        chatroom: {
+          id: channel.chatroomId,
+          channel_id: channel.channelId,
+          chat_mode: "public",
+          slow_mode: false,
+          followers_mode: false,
+          subscribers_mode: false,
+          emotes_mode: false,
+          message_interval: 0,
+          following_min_duration: 0,
+          ...channel.chatroom,
+        },
+      }),
+    );
+  };
+
+  const readBody = async (request: IncomingMessage): Promise<unknown> => {
+    let body = "";
+    for await (const chunk of request as AsyncIterable<Buffer>) {
+      body += chunk.toString();
+    }
+    return body ? JSON.parse(body) : {};
+  };
+
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  // Stand-in for Kick's authenticated API
+  const handleApi = async (
+    request: IncomingMessage,
+    response: ServerResponse,
+  ) => {
+    const json = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+    const ok = (data?: unknown) =>
+      json(200, {
+        status: { error: false, code: 200, message: "SUCCESS" },
+        ...(data !== undefined && { data }),
+      });
+
+    const authorization = request.headers.authorization;
+    if (
+      !authorization?.startsWith("Bearer ") ||
+      (token !== undefined && authorization !== `Bearer ${token}`)
+    ) {
+      json(401, { message: "Unauthenticated." });
+      return;
+    }
+
+    if (rateLimited.requests > 0) {
+      rateLimited.requests--;
+      response.writeHead(429, {
+        ...(rateLimited.retryAfter !== undefined && {
+          "Retry-After": String(rateLimited.retryAfter),
+        }),
+      });
+      response.end();
+      return;
+    }
+
+    const sendMatch = request.url?.match(/^\/api\/v2\/messages\/send\/(\d+)$/);
+    if (request.method === "POST" && sendMatch) {
+      const channel = findByChatroomId(Number(sendMatch[1]));
+      if (!channel) {
+        json(404, { message: "Chatroom not found" });
+        return;
+      }
+
+      const body = await readBody(request);
+      if (!isRecord(body) || typeof body.content !== "string") {
+        json(422, { message: "The content field is required." });
+        return;
+      }
+
+      const message = emitChatMessage({
+        content: body.content,
+        channel: channel[0],
+        sender: apiSender,
+        metadata: isRecord(body.metadata)
+          ? (body.metadata as MockChatMessage["metadata"])
+          : undefined,
+      });
+      sentMessages.push(message);
+      ok(message);
+      return;
+    }
+
+    const bans = request.url?.match(
+      /^\/api\/v2\/channels\/([^/]+)\/bans(?:\/([^/]+))?$/,
+    );
+    const slug = bans && decodeURIComponent(bans[1]!);
+    if (slug && !channels.has(slug)) {
+      json(404, { message: "Channel not found" });
+      return;
+    }
+    if (request.method === "POST" && bans && !bans[2]) {
+      const body = await readBody(request);
+      if (!isRecord(body) || typeof body.banned_username !== "string") {
+        json(422, { message: "The banned username field is required." });
+        return;
+      }
+      if (!body.permanent && typeof body.duration !== "number") {
+        json(422, { message: "The duration field is required." });
+        return;
+      }
+
+      ban(body.banned_username, {
+        channel: slug!,
+        by: apiSender,
+        duration: body.permanent ? undefined : (body.duration as number),
+      });
+      ok();
+      return;
+    }
+    if (request.method === "DELETE" && bans?.[2]) {
+      unban(decodeURIComponent(bans[2]), { channel: slug!, by: apiSender });
+      ok();
+      return;
+    }
+
+    const deletion = request.url?.match(
+      /^\/api\/v2\/chatrooms\/(\d+)\/messages\/([^/]+)$/,
+    );
+    if (request.method === "DELETE" && deletion) {
+      const channel = findByChatroomId(Number(deletion[1]));
+      if (!channel) {
+        json(404, { message: "Chatroom not found" });
+        return;
+      }
+      deleteMessage(decodeURIComponent(deletion[2]!), channel[0]);
+      ok();
+      return;
+    }
+
+    const pin = request.url?.match(
+      /^\/api\/v2\/channels\/([^/]+)\/pinned-message$/,
+    );
+    if (request.method === "POST" && pin) {
+      const channel = channels.get(decodeURIComponent(pin[1]!));
+      if (!channel) {
+        json(404, { message: "Channel not found" });
+        return;
+      }
+      const body = await readBody(request);
+      if (
+        !isRecord(body) ||
+        !isRecord(body.message) ||
+        typeof body.duration !== "number"
+      ) {
+        json(422, { message: "The message and duration fields are required." });
+        return;
+      }
+
+      emit(
+        "App\\Events\\PinnedMessageCreatedEvent",
+        {
+          message: { ...body.message, metadata: null },
+          duration: String(body.duration),
+        },
+        chatroomChannel(channel.chatroomId),
+      );
+      ok();
+      return;
+    }
+
+    json(404, { message: "Not found" });
+  };
+
+  const handleRequest = (
+    request: IncomingMessage,
+    response: ServerResponse,
+  ) => {
+    if (request.url?.startsWith("/api/v1/channels/")) {
+      handleLookup(request, response);
+      return;
+    }
+
+    handleApi(request, response).catch(() => {
+      response.writeHead(400).end();
+    });
+  };
+
+  const httpServer = createServer(handleRequest);
+  const wss = new WebSocketServer({ server: httpServer });
+
+  wss.on("connection", (socket) => {
+    subscriptions.set(socket, new Set());
+
+    send(socket, "pusher:connection_established", {
+      socket_id: `${nextId++}.${nextId++}`,
+      activity_timeout: activityTimeout,
+    });
+
+    socket.on("message", (raw) => {
+      let frame: { event?: string; data?: { channel?: string } };
+      try {
+        const text = Array.isArray(raw)
+          ? Buffer.concat(raw).toString()
+          : raw instanceof ArrayBuffer
+            ? Buffer.from(raw).toString()
+            : raw.toString();
+        frame = JSON.parse(text) as typeof frame;
+      } catch {
+        return;
+      }
+
+      const channel = frame.data?.channel;
+      switch (frame.event) {
+        case "pusher:subscribe":
+          if (channel) {
+            subscriptions.get(socket)?.add(channel);
+            send(socket, "pusher_internal:subscription_succeeded", {}, channel);
+            subscriptionWaiters.get(channel)?.forEach((resolve) => resolve());
+            subscriptionWaiters.delete(channel);
+          }
+          break;
+        case "pusher:unsubscribe":
+          if (channel) {
+            subscriptions.get(socket)?.delete(channel);
+          }
+          break;
+        case "pusher:ping":
+          if (respondToPings) {
+            socket.send(JSON.stringify({ event: "pusher:pong", data: {} }));
+          }
+          break;
+      }
+    });
+
+    socket.on("close", () => {
+      subscriptions.delete(socket);
+    });
+  });
+
+  await new Promise<void>((resolve) => {
+    httpServer.listen(port, host, resolve);
+  });
+  const { port: boundPort } = httpServer.address() as AddressInfo;
+
+  const emit = (event: string, data: unknown, channel: string) => {
+    for (const [socket, channels] of subscriptions) {
+      if (channels.has(channel) && socket.readyState === WebSocket.OPEN) {
+        send(socket, event, data, channel);
+      }
+    }
+  };
+
+  const emitChatMessage = ({
+    content,
+    channel,
+    id,
+    sender = {},
+    metadata,
+  }: MockChatMessage): Omit<MessageData, "tokens"> => {
+    const { chatroomId } = getChannel(channel);
+    const user = toUser(sender);
+    const message: Omit<MessageData, "tokens"> = {
+      id: id ?? `mock-${nextId++}`,
+      chatroom_id: chatroomId,
+      content,
+      type: metadata ? "reply" : "message",
+      created_at: new Date().toISOString(),
+      sender: {
+        ...user,
+        identity: sender.identity ?? { color: "#FFFFFF", badges: [] },
+      },
+      ...(metadata && { metadata }),
+    };
+    emit("App\\Events\\ChatMessageEvent", message, chatroomChannel(chatroomId));
+    return message;
+  };
+
+  const ban = (
+    user: string | Partial<MockUser>,
+    { channel, by = "moderator", duration }: MockBanOptions = {},
+  ): UserBannedEvent => {
+    const { chatroomId } = getChannel(channel);
+    const event: UserBannedEvent = {
+      id: `mock-${nextId++}`,
+      user: toUser(user),
+      banned_by: toUser(by),
+      ...(duration !== undefined && {
+        expires_at: new Date(Date.now() + duration * 60 * 1000).toISOString(),
+      }),
+    };
+    emit("App\\Events\\UserBannedEvent", event, chatroomChannel(chatroomId));
+    return event;
+  };
+
+  const unban = (
+    user: string | Partial<MockUser>,
+    { channel, by = "moderator" }: Omit<MockBanOptions, "duration"> = {},
+  ): UserUnbannedEvent => {
+    const { chatroomId } = getChannel(channel);
+    const event: UserUnbannedEvent = {
+      id: `mock-${nextId++}`,
+      user: toUser(user),
+      unbanned_by: toUser(by),
+    };
+    emit("App\\Events\\UserUnbannedEvent", event, chatroomChannel(chatroomId));
+    return event;
+  };
+
+  const deleteMessage = (
+    messageId: string,
+    channel?: string,
+  ): MessageDeletedEvent => {
+    const { chatroomId } = getChannel(channel);
+    const event: MessageDeletedEvent = {
+      id: `mock-${nextId++}`,
+      message: { id: messageId },
+    };
+    emit(
+      "App\\Events\\MessageDeletedEvent",
+      event,
+      chatroomChannel(chatroomId),
+    );
+    return event;
+  };
+
+  const emitPusherError = (code: number, message: string) => {
+    for (const socket of subscriptions.keys()) {
+      socket.send(
+        JSON.stringify({ event: "pusher:error", data: { code, message } }),
+      );
+    }
+  };
+
+  const dropConnection = () => {
+    for (const socket of subscriptions.keys()) {
+      socket.terminate();
+    }
+  };
+
+  const getSubscriptions = () => {
+    const all = new Set<string>();
+    for (const channels of subscriptions.values()) {
+      channels.forEach((channel) => all.add(channel));
+    }
+    return [...all];
+  };
+
+  const waitForSubscription = (
+    channel: string,
+    timeout = 5000,
+  ): Promise<void> => {
+    if (getSubscriptions().includes(channel)) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        subscriptionWaiters.get(channel)?.delete(done);
+        reject(new Error(`Timed out waiting for a subscription to ${channel}`));
+      }, timeout);
+      const done = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+
+      if (!subscriptionWaiters.has(channel)) {
+        subscriptionWaiters.set(channel, new Set());
+      }
+      subscriptionWaiters.get(channel)!.add(done);
+    });
+  };
+
+  const close = (): Promise<void> => {
+    dropConnection();
+    return new Promise((resolve, reject) => {
+      wss.close(() => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+      });
+    });
+  };
+
+  return {
+    pusherUrl: `ws://${host}:${boundPort}/app/${MOCK_APP_KEY}`,
+    channelsUrl: `http://${host}:${boundPort}/api/v1/channels`,
+    apiUrl: `http://${host}:${boundPort}`,
+    addChannel,
+    failChannelLookup: (name, status) => {
+      if (status === null) {
+        failedLookups.delete(name);
+      } else {
+        failedLookups.set(name, status);
+      }
+    },
+    emit,
+    emitChatMessage,
+    ban,
+    unban,
+    deleteMessage,
+    getSentMessages: () => [...sentMessages],
+    rateLimit: (requests, retryAfter) => {
+      rateLimited = { requests, retryAfter };
+    },
+    emitPusherError,
+    setRespondToPings: (respond) => {
+      respondToPings = respond;
+    },
+    dropConnection,
+    getSubscriptions,
+    waitForSubscription,
+    getConnectionCount: () => subscriptions.size,
+    close,
+  };
+};
@@ -0,0 +1,58 @@
+export interface BroadcasterBadge {
+  type: "broadcaster";
+  text: string;
+}
+
+export interface ModeratorBadge {
+  type: "moderator";
+  text: string;
+}
+
+export interface VipBadge {
+  type: "vip";
+  text: string;
+}
+
+export interface OgBadge {
+  type: "og";
+  text: string;
+}
+
+export interface FounderBadge {
+  type: "founder";
+  text: string;
+}
+
+export interface SubscriberMonthsBadge {
+  type: "subscriber";
+  text: string;
+  /** Months subscribed */
+  count: number;
+}
+
+export interface SubGifterBadge {
+  type: "sub_gifter";
+  text: string;
+  /** Subscriptions gifted */
+  count: number;
+}
+
+export interface VerifiedBadge {
+  type: "verified";
+  text: string;
+}
+
+/**
+ * A badge shown next to a chatter's name
+ */
+export type Badge =
+  | BroadcasterBadge
+  | ModeratorBadge
+  | VipBadge
+  | OgBadge
+  | FounderBadge
+  | SubscriberMonthsBadge
+  | SubGifterBadge
+  | VerifiedBadge;
+
+export type BadgeType = Badge["type"];
@@ -0,0 +1,34 @@
+import type { PinnedMessageCreatedEvent, Poll } from "./events";
+
+/**
+ * Live chatroom settings, pinned message and poll
+ */
+export interface ChatroomState {
+  chatroomId: number;
+  slowMode: boolean;
+  /** Seconds between messages from one user in slow mode */
+  messageInterval: number;
+  followersMode: boolean;
+  /** Minutes a user must have followed for to chat in followers mode */
+  followingMinDuration: number;
+  subscribersMode: boolean;
+  emotesMode: boolean;
+  pinnedMessage: PinnedMessageCreatedEvent | null;
+  /** Current poll, or null without an active poll */
+  poll: Poll | null;
+}
+
+/**
+ * Fields that changed, with their previous and current values
+ */
+export type ChatroomStateDiff = {
+  [K in keyof ChatroomState]?: {
+    previous: ChatroomState[K];
+    current: ChatroomState[K];
+  };
+};
+
+export interface ChatroomStateChangedEvent {
+  state: ChatroomState;
+  changes: ChatroomStateDiff;
+}
@@ -1,4 +1,31 @@
 import type WebSocket from "ws";
+import type {
+  KickEventMap,
+  MessageData,
+  MessageDeletedEvent,
+  PinnedMessageCreatedEvent,
+  UserBannedEvent,
+  UserUnbannedEvent,
+} from "./events";
+import type { Chatroom } from "./channels";
+import type { Middleware } from "./middleware";
+import type { EventStreamOptions, StreamedEvent } from "./streams";
+import type { MetricsSink } from "./metrics";
+import type { WebSocketFactory } from "./transport";
+import type { ChatroomState, ChatroomStateChangedEvent } from "./chatroom";
+import type {
+  ChatMessageDeletedEvent,
+  MessageStore,
+  MessageStoreOptions,
+} from "./store";
+import type {
+  AuthProvider,
+  HttpOptions,
+  SendMessageOptions,
+  SentMessage,
+} from "./http";
+import type { ModerationActionOptions, TimeoutOptions } from "./moderation";
+import type { ReconnectEvent, ReconnectPolicy } from "./reconnect";
 
 export type EventHandler<T> = (data: T) => void;
 
@@ -14,12 +41,16 @@ export interface ConnectionOptions {
   autoReconnect?: boolean;
   /** Maximum number of reconnection attempts (default: 10) */
   maxReconnectAttempts?: number;
-  /** Base reconnection interval in ms (default: 1000) */
+  /** Base reconnection interval in ms, used by the default policy (default: 1000) */
   reconnectInterval?: number;
-  /** Maximum reconnection interval in ms (default: 30000) */
+  /** Maximum reconnection interval in ms, used by the default policy (default: 30000) */
   maxReconnectInterval?: number;
-  /** Heartbeat interval in ms (default: 30000) */
+  /** Delay before each reconnection attempt (default: full jitter between reconnectInterval and maxReconnectInterval) */
+  reconnectPolicy?: ReconnectPolicy;
+  /** Longest silence in ms before sending a pusher:ping; the server's activity_timeout is used when shorter (default: 30000) */
   heartbeatInterval?: number;
+  /** Time in ms to wait for a pusher:pong before treating the connection as dead (default: 30000) */
+  pongTimeout?: number;
 }
 
 export enum ConnectionState {
@@ -30,6 +61,23 @@ export enum ConnectionState {
   ERROR = 'error'
 }
 
+export interface ChannelAuthorization {
+  /** Auth signature for the pusher:subscribe frame */
+  auth: string;
+  /** Member data for presence channels, as a JSON string */
+  channel_data?: string;
+}
+
+/**
+ * Authorize a subscription to a private-* or presence-* channel
+ * @param socketId Socket ID from pusher:connection_established
+ * @param channelName Pusher channel being subscribed to
+ */
+export type ChannelAuthorizer = (
+  socketId: string,
+  channelName: string,
+) => ChannelAuthorization | Promise<ChannelAuthorization>;
+
 export interface WebSocketConfig {
   /** Custom Pusher WebSocket URL (defaults to wss://ws-us2.pusher.com/app/32cbd69e4b950bf97679) */
   pusherUrl?: string;
@@ -43,14 +91,79 @@ export interface WebSocketConfig {
   version?: string;
   /** Flash support (defaults to "false") */
   flash?: string;
-  /** Custom WebSocket options passed to ws constructor */
+  /** Custom WebSocket options passed to ws constructor; using them selects the ws transport */
   wsOptions?: WebSocket.ClientOptions;
-  /** Custom headers for WebSocket handshake */
+  /** Custom headers for WebSocket handshake; only sent by the ws transport */
+  headers?: Record<string, string>;
+  /** Open sockets with this transport instead of the native WebSocket or ws */
+  transport?: WebSocketFactory;
+  /** Signs subscriptions to private-* and presence-* channels */
+  authorizer?: ChannelAuthorizer;
+}
+
+export interface ResolvedChannel {
+  /** Chatroom ID used for the chatrooms.{id}.v2 feed */
+  chatroomId: number;
+  /** Channel ID used for the channel.{id} feed */
+  channelId?: number;
+  /** Chatroom settings, when the lookup returns them */
+  chatroom?: Chatroom;
+}
+
+/**
+ * Resolve a channel slug to the IDs needed to subscribe to its feeds
+ */
+export type ChannelResolver = (channelName: string) => Promise<ResolvedChannel>;
+
+export interface ChannelResolverOptions {
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Channel lookup endpoint (defaults to https://kick.com/api/v1/channels) */
+  baseUrl?: string;
+  /** Extra request headers, e.g. a User-Agent or cookies */
   headers?: Record<string, string>;
+  /** How long resolved channels are cached in ms, 0 disables caching (default: 300000) */
+  cacheTtl?: number;
 }
 
+/**
+ * Supplies raw Pusher frames in place of a live socket
+ */
+export interface FrameSource {
+  /** Deliver frames until the source is exhausted or stopped */
+  start: (onFrame: (frame: string) => void) => Promise<void>;
+  /** Stop delivering frames; start() then resolves */
+  stop: () => void;
+}
+
+/**
+ * Receives every raw frame the client reads
+ */
+export interface FrameRecorder {
+  record: (frame: string) => void;
+  /** Flush and close the recording */
+  close: () => Promise<void>;
+}
+
+/**
+ * How event payloads are checked against their schemas
+ * - off: no checks
+ * - warn: log mismatches and deliver the event anyway
+ * - strict: drop invalid events and report them as VALIDATION errors;
+ *   invalid Pusher protocol frames are only logged
+ */
+export type ValidationMode = "off" | "warn" | "strict";
+
 export interface ClientOptions {
   plainEmote?: boolean;
+  /** Also subscribe to the channel.{id} feed for stream live/offline, livestream and follower events */
+  channelEvents?: boolean;
+  /** Known chatroom ID; skips the channel lookup entirely */
+  chatroomId?: number;
+  /** Known channel ID, used with chatroomId when channelEvents is enabled */
+  channelId?: number;
+  /** Custom channel lookup (defaults to a cached lookup against kick.com) */
+  resolver?: ChannelResolver;
   /** Logger instance for debugging and monitoring, or boolean for console logger */
   logger?: Logger | boolean;
   /** @deprecated No longer used - kept for backward compatibility */
@@ -59,41 +172,252 @@ export interface ClientOptions {
   websocket?: WebSocketConfig;
   /** Connection and reconnection options */
   connection?: ConnectionOptions;
+  /** Record every raw frame, e.g. with createFrameRecorder() */
+  recorder?: FrameRecorder;
+  /** Replay frames from a source, e.g. createReplaySource(), instead of connecting to Kick */
+  source?: FrameSource;
+  /** Keep recent chat messages per chatroom for lookups, threads and deletions */
+  messageStore?: boolean | MessageStoreOptions;
+  /** Check event payloads against their schemas (default: "off") */
+  validation?: ValidationMode;
+  /** Report metrics, e.g. to createPrometheusRegistry() or createOpenTelemetrySink() */
+  metrics?: MetricsSink;
+  /** Supplies the bearer token for sending messages and moderating */
+  auth?: AuthProvider;
+  /** HTTP API transport and retry settings */
+  http?: HttpOptions;
   /** Error handler for connection and WebSocket errors */
   onError?: (error: KickError) => void;
   /** Connection state change handler */
   onConnectionStateChange?: (state: ConnectionState) => void;
 }
 
+export interface ChannelInfo {
+  /** Chatroom ID */
+  id: number;
+  name: string;
+  /** Channel ID, used by the channel.{id} feed */
+  channelId?: number;
+}
+
+/**
+ * Every event a KickClient can emit, mapped to its payload type
+ */
+export interface KickClientEvents extends KickEventMap {
+  ready: ChannelInfo;
+  /** Every frame received, before it is parsed */
+  raw: string;
+  /** A stored message was deleted; requires the messageStore option */
+  ChatMessageDeleted: ChatMessageDeletedEvent;
+  /** Chat modes, pinned message or poll changed */
+  ChatroomStateChanged: ChatroomStateChangedEvent;
+  disconnect: void;
+  /** A reconnection attempt was scheduled */
+  reconnecting: ReconnectEvent;
+  /** A reconnection attempt succeeded */
+  reconnected: ReconnectEvent;
+  /** Reconnection gave up after the last attempt */
+  reconnectFailed: ReconnectEvent;
+  error: KickError;
+}
+
+export type KickClientEventListener<K extends keyof KickClientEvents> = (
+  data: KickClientEvents[K],
+) => void;
+
 export interface KickClient {
   /** Add event listener */
-  on: (event: string, listener: (...args: any[]) => void) => void;
+  on: <K extends keyof KickClientEvents>(
+    event: K,
+    listener: KickClientEventListener<K>,
+  ) => void;
   /** Remove specific event listener */
-  off: (event: string, listener: (...args: any[]) => void) => void;
+  off: <K extends keyof KickClientEvents>(
+    event: K,
+    listener: KickClientEventListener<K>,
+  ) => void;
   /** Remove specific event listener (alias for off) */
-  removeListener: (event: string, listener: (...args: any[]) => void) => void;
+  removeListener: <K extends keyof KickClientEvents>(
+    event: K,
+    listener: KickClientEventListener<K>,
+  ) => void;
   /** Add one-time event listener */
-  once: (event: string, listener: (...args: any[]) => void) => void;
+  once: <K extends keyof KickClientEvents>(
+    event: K,
+    listener: KickClientEventListener<K>,
+  ) => void;
   /** Remove all listeners for an event (or all events if no event specified) */
-  removeAllListeners: (event?: string) => void;
+  removeAllListeners: (event?: keyof KickClientEvents) => void;
   /** Connect to the chat WebSocket */
   connect: () => Promise<void>;
   /** @deprecated Use connect() instead */
   start?: () => Promise<void>;
   /** Disconnect and cleanup the client */
   disconnect: () => void;
+  /** Drop the socket and connect again right away, keeping subscriptions */
+  reconnect: () => Promise<void>;
   /** Check if currently connected to chat */
   isConnected: () => boolean;
   /** Get current connection state */
   getConnectionState: () => ConnectionState;
   /** Get channel info from WebSocket connection */
-  getChannel: () => { id: number; name: string; } | null;
+  getChannel: () => ChannelInfo | null;
+  /** Subscribe to an extra Pusher channel, e.g. a private-* feed */
+  subscribe: (channel: string) => void;
+  /** Unsubscribe from an extra Pusher channel */
+  unsubscribe: (channel: string) => void;
+  /** Add a middleware that runs on every event before listeners see it */
+  use: (middleware: Middleware) => void;
+  /** Message store, when the messageStore option is set */
+  getMessageStore: () => MessageStore | null;
+  /** Chat modes, pinned message and poll, once connect() has resolved the channel */
+  getChatroomState: () => ChatroomState | null;
+  /** Iterate one event type; ends when disconnect() is called */
+  events: <K extends keyof KickEventMap>(
+    event: K,
+    options?: EventStreamOptions,
+  ) => AsyncIterableIterator<KickEventMap[K]>;
+  /** Iterate every Kick event; ends when disconnect() is called */
+  stream: (options?: EventStreamOptions) => AsyncIterableIterator<StreamedEvent>;
+  /**
+   * Send a chat message, queued to respect slow mode and retried when rate limited
+   * @returns The sent message, when Kick's response includes it
+   */
+  send: (content: string, options?: SendMessageOptions) => Promise<SentMessage | null>;
+  /**
+   * Permanently ban a user
+   * @returns The confirming UserBanned event, or null when not waiting for it
+   */
+  ban: (
+    username: string,
+    reason?: string,
+    options?: ModerationActionOptions,
+  ) => Promise<UserBannedEvent | null>;
+  /**
+   * Time out a user for a number of minutes
+   * @returns The confirming UserBanned event, or null when not waiting for it
+   */
+  timeout: (
+    username: string,
+    minutes: number,
+    options?: TimeoutOptions,
+  ) => Promise<UserBannedEvent | null>;
+  /**
+   * Lift a ban or timeout
+   * @returns The confirming UserUnbanned event, or null when not waiting for it
+   */
+  unban: (
+    username: string,
+    options?: ModerationActionOptions,
+  ) => Promise<UserUnbannedEvent | null>;
+  /**
+   * Delete a chat message
+   * @returns The confirming MessageDeleted event, or null when not waiting for it
+   */
+  deleteMessage: (
+    messageId: string,
+    options?: ModerationActionOptions,
+  ) => Promise<MessageDeletedEvent | null>;
+  /**
+   * Pin a message, or the ID of one in the message store, for a number of seconds
+   * @returns The confirming PinnedMessageCreated event, or null when not waiting for it
+   */
+  pinMessage: (
+    message: MessageData | string,
+    duration: number,
+    options?: ModerationActionOptions,
+  ) => Promise<PinnedMessageCreatedEvent | null>;
+}
+
+export interface MultiClientOptions
+  extends Omit<ClientOptions, "readOnly" | "chatroomId" | "channelId"> {
+  /** Channels to join when connect() is called */
+  channels?: string[];
+}
+
+/**
+ * Events emitted by a multi-channel client, mapped to listener arguments.
+ * Kick events carry the channel they arrived on as a second argument.
+ */
+export type KickMultiClientEvents = {
+  [K in keyof KickEventMap]: [data: KickEventMap[K], channel: ChannelInfo];
+} & {
+  ready: [];
+  raw: [frame: string];
+  ChatMessageDeleted: [event: ChatMessageDeletedEvent, channel: ChannelInfo];
+  joined: [channel: ChannelInfo];
+  left: [channel: ChannelInfo];
+  disconnect: [];
+  reconnecting: [event: ReconnectEvent];
+  reconnected: [event: ReconnectEvent];
+  reconnectFailed: [event: ReconnectEvent];
+  error: [error: KickError];
+};
+
+export type KickMultiClientEventListener<
+  K extends keyof KickMultiClientEvents,
+> = (...args: KickMultiClientEvents[K]) => void;
+
+export interface KickMultiClient {
+  /** Add event listener */
+  on: <K extends keyof KickMultiClientEvents>(
+    event: K,
+    listener: KickMultiClientEventListener<K>,
+  ) => void;
+  /** Remove specific event listener */
+  off: <K extends keyof KickMultiClientEvents>(
+    event: K,
+    listener: KickMultiClientEventListener<K>,
+  ) => void;
+  /** Remove specific event listener (alias for off) */
+  removeListener: <K extends keyof KickMultiClientEvents>(
+    event: K,
+    listener: KickMultiClientEventListener<K>,
+  ) => void;
+  /** Add one-time event listener */
+  once: <K extends keyof KickMultiClientEvents>(
+    event: K,
+    listener: KickMultiClientEventListener<K>,
+  ) => void;
+  /** Remove all listeners for an event (or all events if no event specified) */
+  removeAllListeners: (event?: keyof KickMultiClientEvents) => void;
+  /** Add a middleware that runs on every event before listeners see it */
+  use: (middleware: Middleware) => void;
+  /** Message store shared by every channel, when the messageStore option is set */
+  getMessageStore: () => MessageStore | null;
+  /** Open the shared WebSocket and join the configured channels */
+  connect: () => Promise<void>;
+  /** Disconnect, leave every channel and cleanup the client */
+  disconnect: () => void;
+  /** Drop the shared socket and connect again right away, keeping every channel */
+  reconnect: () => Promise<void>;
+  /**
+   * Join a channel's chatroom, subscribing right away if connected.
+   * Rejects if leave() or disconnect() is called before the join completes.
+   */
+  join: (channelName: string) => Promise<ChannelInfo>;
+  /** Leave a joined channel, or cancel a join that is still resolving */
+  leave: (channelName: string) => void;
+  /** Get every joined channel */
+  getChannels: () => ChannelInfo[];
+  /** Check if the shared WebSocket is connected */
+  isConnected: () => boolean;
+  /** Get current connection state */
+  getConnectionState: () => ConnectionState;
 }
 
 export enum ErrorType {
   CONNECTION = 'connection',
   WEBSOCKET = 'websocket',
-  VALIDATION = 'validation'
+  VALIDATION = 'validation',
+  SUBSCRIPTION = 'subscription',
+  COMMAND = 'command',
+  MIDDLEWARE = 'middleware',
+  LISTENER = 'listener',
+  STREAM = 'stream',
+  AUTHENTICATION = 'authentication',
+  API_REQUEST = 'api_request',
+  WEBHOOK = 'webhook'
 }
 
 export interface KickError {
@@ -0,0 +1,73 @@
+import type { ChannelInfo, KickClient, KickError, Logger } from "./client";
+import type { BadgeType } from "./badges";
+import type { MessageData, MessageSender } from "./events";
+
+/**
+ * Badge a sender must hold, or a custom check
+ */
+export type CommandPermission =
+  | BadgeType
+  | ((sender: MessageSender) => boolean);
+
+export interface CommandCooldown {
+  /** Per-user cooldown in ms */
+  user?: number;
+  /** Cooldown in ms shared by everyone */
+  global?: number;
+}
+
+export interface CommandContext {
+  /** Message that invoked the command */
+  message: MessageData;
+  /** Canonical command name */
+  command: string;
+  /** Name or alias the sender typed */
+  invokedAs: string;
+  /** Parsed arguments, with quotes removed */
+  args: string[];
+  /** Everything after the command name, unparsed */
+  rawArgs: string;
+  /** Channel the client is connected to */
+  channel: ChannelInfo | null;
+  client: KickClient;
+}
+
+export interface CommandDefinition {
+  name: string;
+  aliases?: string[];
+  description?: string;
+  cooldown?: CommandCooldown;
+  /** Sender must satisfy at least one of these */
+  permission?: CommandPermission | CommandPermission[];
+  handler: (context: CommandContext) => void | Promise<void>;
+}
+
+export type CommandDenial =
+  | { reason: "permission" }
+  | { reason: "cooldown"; scope: "user" | "global"; remaining: number };
+
+export interface CommandRouterOptions {
+  /** Prefix that marks a message as a command (default: "!") */
+  prefix?: string;
+  /** Match command names case-sensitively (default: false) */
+  caseSensitive?: boolean;
+  /** Logger for handler failures not handled by onError */
+  logger?: Logger | boolean;
+  /** Called when a handler throws or rejects */
+  onError?: (error: KickError, context: CommandContext) => void;
+  /** Called when a command is refused for permissions or cooldown */
+  onDenied?: (denial: CommandDenial, context: CommandContext) => void;
+}
+
+export interface CommandRouter {
+  /** Register a command */
+  command: (definition: CommandDefinition) => CommandRouter;
+  /** Unregister a command and its aliases */
+  remove: (name: string) => void;
+  /** Get every registered command */
+  getCommands: () => CommandDefinition[];
+  /** Listen to the client again, e.g. after disconnect() removed every listener */
+  attach: () => void;
+  /** Stop listening to the client's chat messages */
+  detach: () => void;
+}
@@ -1,7 +1,18 @@
+import type { Livestream } from "./video";
+import type { MessageToken } from "./tokens";
+import type { Badge } from "./badges";
+
 export interface MessageEvent {
   event: string;
   data: string;
-  channel: string;
+  channel?: string;
+}
+
+export interface MessageSender {
+  id: number;
+  username: string;
+  slug: string;
+  identity: { color: string; badges: Badge[] };
 }
 
 export interface MessageData {
@@ -10,12 +21,7 @@ export interface MessageData {
   content: string;
   type: string;
   created_at: string;
-  sender: {
-    id: number;
-    username: string;
-    slug: string;
-    identity: { color: string; badges: unknown };
-  };
+  sender: MessageSender;
   metadata?: {
     original_sender: { id: string; username: string };
     original_message: {
@@ -23,6 +29,8 @@ export interface MessageData {
       content: string;
     };
   };
+  /** Content split into text, emote, mention, URL and emoji tokens */
+  tokens: MessageToken[];
 }
 
 export interface SubscriptionData {
@@ -36,12 +44,7 @@ export interface ChatMessage {
   content: string;
   type: string;
   created_at: string;
-  sender: {
-    id: number;
-    username: string;
-    slug: string;
-    identity: { color: string; badges: unknown };
-  };
+  sender: MessageSender;
 }
 
 export interface Subscription {
@@ -84,7 +87,8 @@ export interface UserBannedEvent {
     slug: string;
   };
 
-  expires_at?: Date;
+  /** ISO timestamp the timeout ends at; absent for permanent bans */
+  expires_at?: string;
 }
 
 export interface UserUnbannedEvent {
@@ -107,21 +111,153 @@ export interface PinnedMessageCreatedEvent {
     chatroom_id: number;
     content: string;
     type: string;
-    created_at: Date;
-    sender: {
-      id: number;
-      username: string;
-      slug: string;
-      identity: {
-        color: string;
-        badges: Array<{
-          type: string;
-          text: string;
-          count?: number;
-        }>;
-      };
-    };
+    created_at: string;
+    sender: MessageSender;
     metadata: null;
   };
   duration: string;
 }
+
+export interface PollOption {
+  id: number;
+  label: string;
+  votes: number;
+}
+
+export interface Poll {
+  title: string;
+  options: PollOption[];
+  /** Voting time in seconds */
+  duration: number;
+  /** Voting time left in seconds when the update was sent */
+  remaining: number;
+  /** Seconds the results stay on screen after voting ends */
+  result_display_duration: number;
+}
+
+export interface PollUpdateEvent {
+  poll: Poll;
+}
+
+export type PollDeleteEvent = Record<string, unknown>;
+
+export interface ChatroomUpdatedEvent {
+  id: number;
+  slow_mode: { enabled: boolean; message_interval: number };
+  subscribers_mode: { enabled: boolean };
+  followers_mode: { enabled: boolean; min_duration: number };
+  emotes_mode: { enabled: boolean };
+  advanced_bot_protection?: { enabled: boolean; remaining_time: number };
+}
+
+export interface StreamStartedEvent {
+  livestream: Pick<
+    Livestream,
+    "id" | "channel_id" | "session_title" | "source"
+  > & {
+    /** ISO timestamp */
+    created_at: string;
+  };
+}
+
+export interface StreamEndedEvent {
+  livestream: Pick<Livestream, "id"> & {
+    channel: {
+      id: number;
+      is_banned: boolean;
+    };
+  };
+}
+
+export interface LivestreamUpdatedEvent {
+  livestream: Omit<Livestream, "channel" | "created_at" | "start_time"> & {
+    /** ISO timestamp */
+    created_at: string;
+    start_time: string;
+  };
+}
+
+export interface FollowersUpdatedEvent {
+  followersCount: number;
+  channel_id: number;
+  username: string | null;
+  created_at: number;
+  followed: boolean;
+}
+
+/**
+ * An event no parser is registered for, passed through undecoded
+ */
+export interface UnknownEvent {
+  /** Pusher event name, e.g. "App\\Events\\KicksGifted" */
+  event: string;
+  /** Event data, JSON-decoded when possible */
+  data: unknown;
+}
+
+export interface PusherConnectionEstablishedEvent {
+  socket_id: string;
+  activity_timeout: number;
+}
+
+export interface PusherErrorEvent {
+  code: number | null;
+  message: string;
+}
+
+export interface PusherSubscriptionErrorEvent {
+  type: string;
+  error: string;
+  status: number;
+}
+
+/**
+ * Kick chat events keyed by the type name returned from `parseMessage`.
+ * Declared as an interface so consumers can augment it with events added
+ * through registerEventParser.
+ */
+export interface KickEventMap {
+  ChatMessage: MessageData;
+  Subscription: Subscription;
+  GiftedSubscriptions: GiftedSubscriptionsEvent;
+  StreamHost: StreamHostEvent;
+  MessageDeleted: MessageDeletedEvent;
+  UserBanned: UserBannedEvent;
+  UserUnbanned: UserUnbannedEvent;
+  PinnedMessageCreated: PinnedMessageCreatedEvent;
+  PinnedMessageDeleted: MessageDeletedEvent;
+  PollUpdate: PollUpdateEvent;
+  PollDelete: PollDeleteEvent;
+  ChatroomUpdated: ChatroomUpdatedEvent;
+  StreamStarted: StreamStartedEvent;
+  StreamEnded: StreamEndedEvent;
+  LivestreamUpdated: LivestreamUpdatedEvent;
+  FollowersUpdated: FollowersUpdatedEvent;
+  UnknownEvent: UnknownEvent;
+}
+
+/**
+ * Pusher protocol events, handled internally by the client
+ */
+export interface PusherEventMap {
+  PusherConnectionEstablished: PusherConnectionEstablishedEvent;
+  PusherSubscriptionSucceeded: unknown;
+  PusherPong: unknown;
+  PusherPing: unknown;
+  PusherError: PusherErrorEvent;
+  PusherSubscriptionError: PusherSubscriptionErrorEvent;
+}
+
+export type ParsedEventMap = KickEventMap & PusherEventMap;
+
+/**
+ * Discriminated union of everything `parseMessage` can return.
+ * `channel` is the Pusher channel the frame arrived on, when it has one.
+ */
+export type ParsedMessage = {
+  [K in keyof ParsedEventMap]: {
+    type: K;
+    data: ParsedEventMap[K];
+    channel?: string;
+  };
+}[keyof ParsedEventMap];
@@ -0,0 +1,49 @@
+import type { MessageData } from "./events";
+
+export interface HttpRequest {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  url: string;
+  headers: Record<string, string>;
+  /** JSON request body */
+  body?: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Perform an HTTP request against Kick's API
+ */
+export type HttpTransport = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Supply the bearer token used for authenticated API requests
+ */
+export type AuthProvider = () => string | Promise<string>;
+
+export interface HttpOptions {
+  /** Perform requests with this transport instead of the global fetch */
+  transport?: HttpTransport;
+  /** API origin (defaults to https://kick.com) */
+  baseUrl?: string;
+  /** Extra request headers, e.g. a User-Agent or cookies */
+  headers?: Record<string, string>;
+  /** How often a rate-limited (429) request is retried (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry when the response has no Retry-After header, doubled each retry (default: 1000) */
+  retryDelay?: number;
+}
+
+export interface SendMessageOptions {
+  /** Message to reply to, or the ID of one in the message store */
+  replyTo?: MessageData | string;
+}
+
+/**
+ * A sent message as Kick's API returns it
+ */
+export type SentMessage = Omit<MessageData, "tokens">;
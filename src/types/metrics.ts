@@ -0,0 +1,60 @@
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Destination for client metrics. Implement this to forward metrics to any
+ * backend, or use createPrometheusRegistry / createOpenTelemetrySink.
+ */
+export interface MetricsSink {
+  /** Add to a monotonic counter */
+  increment: (name: string, labels?: MetricLabels, value?: number) => void;
+  /** Record one sample of a distribution, e.g. a latency */
+  observe: (name: string, value: number, labels?: MetricLabels) => void;
+  /**
+   * Register a gauge read whenever metrics are collected
+   * @returns Function that unregisters the gauge
+   */
+  gauge: (
+    name: string,
+    read: () => number,
+    labels?: MetricLabels,
+  ) => () => void;
+}
+
+export interface PrometheusRegistryOptions {
+  /** Prepended to every metric name (default: none) */
+  prefix?: string;
+  /** Histogram bucket upper bounds, in the observed unit */
+  buckets?: number[];
+}
+
+export interface PrometheusRegistry extends MetricsSink {
+  /** Render every metric in the Prometheus text exposition format */
+  metrics: () => string;
+  /** Content-Type header to serve metrics() with */
+  contentType: string;
+  /** Drop every recorded value and registered gauge */
+  reset: () => void;
+}
+
+/**
+ * The parts of an OpenTelemetry Meter the adapter uses, so this library
+ * doesn't depend on @opentelemetry/api. A real Meter satisfies this type.
+ */
+export interface OpenTelemetryMeter {
+  createCounter: (
+    name: string,
+    options?: { description?: string; unit?: string },
+  ) => { add: (value: number, attributes?: MetricLabels) => void };
+  createHistogram: (
+    name: string,
+    options?: { description?: string; unit?: string },
+  ) => { record: (value: number, attributes?: MetricLabels) => void };
+  createObservableGauge: (
+    name: string,
+    options?: { description?: string; unit?: string },
+  ) => { addCallback: (callback: OpenTelemetryObservableCallback) => void };
+}
+
+export type OpenTelemetryObservableCallback = (result: {
+  observe: (value: number, attributes?: MetricLabels) => void;
+}) => void;
@@ -0,0 +1,25 @@
+import type { ChannelInfo } from "./client";
+import type { ParsedEventMap } from "./events";
+
+/**
+ * A parsed event on its way to listeners. Middlewares may mutate or
+ * replace `data`; listeners receive whatever is left when the chain ends.
+ */
+export type MiddlewareContext = {
+  [K in keyof ParsedEventMap]: {
+    type: K;
+    data: ParsedEventMap[K];
+    /** Channel the event arrived on, if known */
+    channel: ChannelInfo | null;
+    /** Scratch space shared by the middlewares handling this event */
+    state: Record<string, unknown>;
+  };
+}[keyof ParsedEventMap];
+
+/** Run the rest of the chain; not calling it drops the event */
+export type MiddlewareNext = () => Promise<void>;
+
+export type Middleware = (
+  context: MiddlewareContext,
+  next: MiddlewareNext,
+) => void | Promise<void>;
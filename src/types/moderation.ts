@@ -0,0 +1,91 @@
+import type { ChannelInfo } from "./client";
+
+export interface ModerationUser {
+  id: number;
+  username: string;
+  slug: string;
+}
+
+interface ModerationEntryBase {
+  /** Id of the Kick event the entry was recorded from */
+  id: string;
+  /** When the event was received */
+  createdAt: Date;
+  channel: ChannelInfo | null;
+  /** Who took the action; Kick doesn't say for message deletions */
+  moderator: ModerationUser | null;
+  /** Who the action was taken against, when known */
+  target: ModerationUser | null;
+}
+
+export interface BanEntry extends ModerationEntryBase {
+  type: "ban";
+  moderator: ModerationUser;
+  target: ModerationUser;
+}
+
+export interface TimeoutEntry extends ModerationEntryBase {
+  type: "timeout";
+  moderator: ModerationUser;
+  target: ModerationUser;
+  /** Timeout length in seconds */
+  duration: number;
+  expiresAt: Date;
+}
+
+export interface UnbanEntry extends ModerationEntryBase {
+  type: "unban";
+  moderator: ModerationUser;
+  target: ModerationUser;
+}
+
+export interface MessageDeletionEntry extends ModerationEntryBase {
+  type: "messageDeleted";
+  messageId: string;
+  /** Deleted content, when the message is in the client's message store */
+  content: string | null;
+}
+
+export type ModerationEntry =
+  | BanEntry
+  | TimeoutEntry
+  | UnbanEntry
+  | MessageDeletionEntry;
+
+export type ModerationEntryType = ModerationEntry["type"];
+
+export interface ModerationLogOptions {
+  /** Entries kept; the oldest are dropped first (default: 10000) */
+  maxEntries?: number;
+  /** Called with each entry as it is recorded */
+  onEntry?: (entry: ModerationEntry) => void;
+}
+
+export interface ModerationLog {
+  /** Every entry, oldest first, optionally of one type */
+  getEntries: (type?: ModerationEntryType) => ModerationEntry[];
+  /** Entries targeting a user, by user id or username */
+  getByUser: (user: number | string) => ModerationEntry[];
+  /** Entries taken by a moderator, by user id or username */
+  getByModerator: (moderator: number | string) => ModerationEntry[];
+  /** Entries as a JSON array */
+  toJSON: () => string;
+  /** Entries as CSV with a header row */
+  toCSV: () => string;
+  clear: () => void;
+  /** Listen to the client again, e.g. after disconnect() removed every listener */
+  attach: () => void;
+  /** Stop recording the client's events */
+  detach: () => void;
+}
+
+export interface ModerationActionOptions {
+  /** Wait for the matching Kick event before resolving (default: true while connected) */
+  confirm?: boolean;
+  /** How long to wait for the event in ms before rejecting (default: 10000) */
+  confirmTimeout?: number;
+}
+
+export interface TimeoutOptions extends ModerationActionOptions {
+  reason?: string;
+}
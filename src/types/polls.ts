@@ -0,0 +1,43 @@
+import type { Poll, PollOption } from "./events";
+
+export interface PollStartedEvent {
+  poll: Poll;
+}
+
+export interface PollVotesChangedEvent {
+  poll: Poll;
+  previous: Poll;
+  totalVotes: number;
+}
+
+export interface PollEndedEvent {
+  poll: Poll;
+  /** Options with the most votes; several on a tie, none without votes */
+  winners: PollOption[];
+  totalVotes: number;
+  /** "completed" when voting time ran out, "deleted" when removed early */
+  reason: "completed" | "deleted";
+}
+
+export interface PollTrackerEvents {
+  PollStarted: PollStartedEvent;
+  PollVotesChanged: PollVotesChangedEvent;
+  PollEnded: PollEndedEvent;
+}
+
+export interface PollTracker {
+  on: <K extends keyof PollTrackerEvents>(
+    event: K,
+    listener: (data: PollTrackerEvents[K]) => void,
+  ) => void;
+  off: <K extends keyof PollTrackerEvents>(
+    event: K,
+    listener: (data: PollTrackerEvents[K]) => void,
+  ) => void;
+  /** Poll currently being voted on, or showing its results */
+  getPoll: () => Poll | null;
+  /** Listen to the client again, e.g. after disconnect() removed every listener */
+  attach: () => void;
+  /** Stop listening to the client and cancel timers */
+  detach: () => void;
+}
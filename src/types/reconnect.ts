@@ -0,0 +1,28 @@
+export interface ReconnectContext {
+  /** Attempt about to be made, starting at 1 */
+  attempt: number;
+  /** Delay before the previous attempt in ms, or null before the first */
+  previousDelay: number | null;
+}
+
+/**
+ * Choose how long to wait before a reconnection attempt
+ * @returns Delay in ms, or null to stop reconnecting
+ */
+export type ReconnectPolicy = (context: ReconnectContext) => number | null;
+
+export interface ReconnectPolicyOptions {
+  /** Smallest delay in ms, and the scale backoff grows from (default: 1000) */
+  baseDelay?: number;
+  /** Largest delay in ms (default: 30000) */
+  maxDelay?: number;
+}
+
+/**
+ * Payload of the reconnecting, reconnected and reconnectFailed events
+ */
+export interface ReconnectEvent {
+  attempt: number;
+  /** Delay before the attempt in ms */
+  delay: number;
+}
@@ -0,0 +1,48 @@
+import type { MessageData, MessageDeletedEvent } from "./events";
+
+export interface MessageStoreOptions {
+  /** Messages kept per chatroom; the oldest are evicted first (default: 500) */
+  maxMessages?: number;
+}
+
+export interface StoredMessage {
+  message: MessageData;
+  /** Id of the message this one replies to */
+  replyTo?: string;
+  deleted: boolean;
+  /** When the deletion arrived */
+  deletedAt?: Date;
+}
+
+/**
+ * Emitted after MessageDeleted when the deleted message is in the store
+ */
+export interface ChatMessageDeletedEvent {
+  /** The deleted message, as it was received */
+  message: MessageData;
+  /** The MessageDeleted event that removed it */
+  deletion: MessageDeletedEvent;
+}
+
+export interface MessageStore {
+  /** Store a message, evicting its chatroom's oldest if full */
+  add: (message: MessageData) => StoredMessage;
+  get: (id: string) => StoredMessage | undefined;
+  /** Messages from a user, by user id or username, oldest first */
+  getByUser: (user: number | string, chatroomId?: number) => StoredMessage[];
+  /** Direct replies to a message, oldest first */
+  getReplies: (id: string) => StoredMessage[];
+  /**
+   * Every stored message in the thread containing a message, oldest first,
+   * starting from the oldest ancestor still in the store
+   */
+  getThread: (id: string) => StoredMessage[];
+  /** Messages in a chatroom, oldest first */
+  getMessages: (chatroomId: number) => StoredMessage[];
+  /** Mark a message deleted; returns it if it was stored */
+  markDeleted: (id: string) => StoredMessage | undefined;
+  /** Forget one chatroom's messages, or every message */
+  clear: (chatroomId?: number) => void;
+  /** Number of stored messages across all chatrooms */
+  size: () => number;
+}
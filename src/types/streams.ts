@@ -0,0 +1,30 @@
+import type { ChannelInfo } from "./client";
+import type { KickEventMap } from "./events";
+
+/**
+ * What a stream does when its buffer is full and another event arrives
+ * - dropOldest: discard the oldest buffered event
+ * - dropNewest: discard the incoming event
+ * - error: end the stream with an ErrorType.STREAM error
+ */
+export type OverflowPolicy = "dropOldest" | "dropNewest" | "error";
+
+export interface EventStreamOptions {
+  /** Events buffered while the consumer is busy (default: 1000) */
+  bufferSize?: number;
+  /** Policy once the buffer is full (default: "dropOldest") */
+  overflow?: OverflowPolicy;
+  /** End the stream when this signal aborts */
+  signal?: AbortSignal;
+}
+
+/**
+ * An event yielded by client.stream()
+ */
+export type StreamedEvent = {
+  [K in keyof KickEventMap]: {
+    type: K;
+    data: KickEventMap[K];
+    channel: ChannelInfo | null;
+  };
+}[keyof KickEventMap];
@@ -0,0 +1,50 @@
+export interface TextToken {
+  type: "text";
+  text: string;
+}
+
+export interface EmoteToken {
+  type: "emote";
+  id: string;
+  name: string;
+  /** Raw [emote:id:name] tag */
+  text: string;
+}
+
+export interface MentionToken {
+  type: "mention";
+  username: string;
+  /** Raw @username text */
+  text: string;
+}
+
+export interface UrlToken {
+  type: "url";
+  url: string;
+  text: string;
+}
+
+export interface EmojiToken {
+  type: "emoji";
+  text: string;
+}
+
+/**
+ * One segment of a chat message's content
+ */
+export type MessageToken =
+  | TextToken
+  | EmoteToken
+  | MentionToken
+  | UrlToken
+  | EmojiToken;
+
+export interface HtmlRenderOptions {
+  /** Image URL for an emote (defaults to Kick's emote CDN) */
+  emoteUrl?: (id: string) => string;
+}
+
+export interface MarkdownRenderOptions {
+  /** Image URL for an emote (defaults to Kick's emote CDN) */
+  emoteUrl?: (id: string) => string;
+}
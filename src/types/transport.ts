@@ -0,0 +1,43 @@
+/**
+ * Events a transport socket emits, mapped to their listener arguments
+ */
+export interface TransportSocketEvents {
+  open: [];
+  /** A text frame */
+  message: [data: string];
+  close: [code: number, reason: string];
+  error: [error: Error];
+}
+
+/**
+ * The WebSocket surface the Pusher connection needs, implemented over the
+ * native WebSocket or the `ws` package
+ */
+export interface TransportSocket {
+  /** One of the standard WebSocket ready states (0 connecting to 3 closed) */
+  readonly readyState: number;
+  send: (data: string) => void;
+  close: (code?: number, reason?: string) => void;
+  /** Drop the connection without a closing handshake, where the runtime allows it */
+  terminate: () => void;
+  on: <E extends keyof TransportSocketEvents>(
+    event: E,
+    listener: (...args: TransportSocketEvents[E]) => void,
+  ) => void;
+  removeAllListeners: () => void;
+}
+
+export interface TransportOptions {
+  /** Headers for the handshake; only honoured by the `ws` transport */
+  headers?: Record<string, string>;
+  /** Options for the `ws` constructor */
+  wsOptions?: Record<string, unknown>;
+}
+
+/**
+ * Open a socket to a URL
+ */
+export type WebSocketFactory = (
+  url: string,
+  options: TransportOptions,
+) => TransportSocket;
@@ -0,0 +1,100 @@
+import type {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  ServerResponse,
+} from "http";
+import type { KeyObject } from "crypto";
+import type { KickError, KickClientEventListener, Logger } from "./client";
+import type { KickEventMap } from "./events";
+import type { Middleware } from "./middleware";
+
+/**
+ * A user as Kick's webhook payloads describe them
+ */
+export interface WebhookUser {
+  is_anonymous?: boolean;
+  user_id: number;
+  username: string;
+  is_verified?: boolean;
+  profile_picture?: string;
+  channel_slug: string;
+  identity?: {
+    username_color: string;
+    badges: { text: string; type: string; count?: number }[];
+  } | null;
+}
+
+export interface WebhookHandlerOptions {
+  /** PEM public key Kick signs webhooks with */
+  publicKey: string | KeyObject;
+  /** Largest difference in ms between a message's timestamp and now before it is rejected (default: 300000) */
+  tolerance?: number;
+  /** Logger instance for debugging and monitoring, or boolean for console logger */
+  logger?: Logger | boolean;
+  plainEmote?: boolean;
+  /** Called with every rejected request */
+  onError?: (error: KickError) => void;
+}
+
+/**
+ * What to answer Kick with
+ */
+export interface WebhookResult {
+  status: number;
+  /** Why the request was rejected */
+  message?: string;
+}
+
+/**
+ * The parts of a Fastify request the handler reads. Register a content type
+ * parser with `parseAs: "string"` so the signed body reaches it unchanged.
+ */
+export interface FastifyWebhookRequest {
+  headers: IncomingHttpHeaders;
+  body?: unknown;
+}
+
+export interface FastifyWebhookReply {
+  code: (status: number) => FastifyWebhookReply;
+  send: (payload?: string) => unknown;
+}
+
+export interface WebhookHandler {
+  /** Add event listener */
+  on: <K extends keyof KickEventMap>(
+    event: K,
+    listener: KickClientEventListener<K>,
+  ) => void;
+  /** Remove specific event listener */
+  off: <K extends keyof KickEventMap>(
+    event: K,
+    listener: KickClientEventListener<K>,
+  ) => void;
+  /** Add one-time event listener */
+  once: <K extends keyof KickEventMap>(
+    event: K,
+    listener: KickClientEventListener<K>,
+  ) => void;
+  /** Remove all listeners for an event (or all events if no event specified) */
+  removeAllListeners: (event?: keyof KickEventMap) => void;
+  /** Add a middleware that runs on every event before listeners see it */
+  use: (middleware: Middleware) => void;
+  /** Verify a delivery and emit its event */
+  handle: (
+    headers: IncomingHttpHeaders,
+    body: string | Uint8Array,
+  ) => Promise<WebhookResult>;
+  /** Request listener for http.createServer() */
+  listener: (request: IncomingMessage, response: ServerResponse) => void;
+  /** Express middleware; use it with express.raw() or without a body parser */
+  express: (
+    request: IncomingMessage & { body?: unknown },
+    response: ServerResponse,
+    next?: (error?: unknown) => void,
+  ) => void;
+  /** Fastify route handler */
+  fastify: (
+    request: FastifyWebhookRequest,
+    reply: FastifyWebhookReply,
+  ) => Promise<void>;
+}
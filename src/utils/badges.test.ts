@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  getBadge,
+  giftedSubscriptions,
+  hasBadge,
+  isBroadcaster,
+  isFounder,
+  isModerator,
+  isOg,
+  isSubscriber,
+  isVerified,
+  isVip,
+  subscriberMonths,
+  type BadgeHolder,
+} from "./badges";
+import type { Badge } from "../types/badges";
+
+const sender = (...badges: Badge[]): BadgeHolder => ({
+  identity: { color: "#ffffff", badges },
+});
+
+describe("badges", () => {
+  it("finds a badge by type", () => {
+    const holder = sender(
+      { type: "vip", text: "VIP" },
+      { type: "subscriber", text: "Subscriber", count: 6 },
+    );
+
+    expect(getBadge(holder, "subscriber")).toEqual({
+      type: "subscriber",
+      text: "Subscriber",
+      count: 6,
+    });
+    expect(getBadge(holder, "moderator")).toBeUndefined();
+    expect(hasBadge(holder, "vip")).toBe(true);
+    expect(hasBadge(holder, "og")).toBe(false);
+  });
+
+  it("checks each role against its badge", () => {
+    const checks = [
+      [isBroadcaster, "broadcaster"],
+      [isModerator, "moderator"],
+      [isVip, "vip"],
+      [isOg, "og"],
+      [isFounder, "founder"],
+      [isSubscriber, "subscriber"],
+      [isVerified, "verified"],
+    ] as const;
+
+    for (const [check, type] of checks) {
+      const badge = { type, text: type, count: 1 } as Badge;
+      expect(check(sender(badge))).toBe(true);
+      expect(check(sender())).toBe(false);
+    }
+  });
+
+  it("counts the broadcaster as a moderator", () => {
+    const broadcaster = sender({ type: "broadcaster", text: "Broadcaster" });
+    expect(isModerator(broadcaster)).toBe(true);
+    expect(isVip(broadcaster)).toBe(false);
+  });
+
+  it("counts founders as subscribers", () => {
+    expect(isSubscriber(sender({ type: "founder", text: "Founder" }))).toBe(
+      true,
+    );
+  });
+
+  it("reads subscription and gift counts", () => {
+    const holder = sender(
+      { type: "subscriber", text: "Subscriber", count: 12 },
+      { type: "sub_gifter", text: "Sub Gifter", count: 50 },
+    );
+
+    expect(subscriberMonths(holder)).toBe(12);
+    expect(giftedSubscriptions(holder)).toBe(50);
+    expect(subscriberMonths(sender())).toBe(0);
+    expect(giftedSubscriptions(sender())).toBe(0);
+  });
+
+  it("treats a sender without a badge list as having no badges", () => {
+    const holder = { identity: {} } as BadgeHolder;
+
+    expect(hasBadge(holder, "moderator")).toBe(false);
+    expect(isModerator(holder)).toBe(false);
+    expect(subscriberMonths(holder)).toBe(0);
+  });
+});
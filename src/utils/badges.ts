@@ -0,0 +1,64 @@
+import type { Badge, BadgeType } from "../types/badges";
+import type { MessageSender } from "../types/events";
+
+/**
+ * Anything carrying a chatter's identity, e.g. a MessageData sender
+ */
+export type BadgeHolder = Pick<MessageSender, "identity">;
+
+const badgesOf = (sender: BadgeHolder): Badge[] =>
+  Array.isArray(sender.identity?.badges) ? sender.identity.badges : [];
+
+/**
+ * Find a sender's badge of the given type
+ */
+export const getBadge = <T extends BadgeType>(
+  sender: BadgeHolder,
+  type: T,
+): Extract<Badge, { type: T }> | undefined =>
+  badgesOf(sender).find(
+    (badge): badge is Extract<Badge, { type: T }> => badge.type === type,
+  );
+
+/**
+ * Check whether a sender has a badge of the given type
+ */
+export const hasBadge = (sender: BadgeHolder, type: BadgeType): boolean =>
+  getBadge(sender, type) !== undefined;
+
+export const isBroadcaster = (sender: BadgeHolder): boolean =>
+  hasBadge(sender, "broadcaster");
+
+/**
+ * Check for moderation rights; the broadcaster counts as a moderator
+ */
+export const isModerator = (sender: BadgeHolder): boolean =>
+  hasBadge(sender, "moderator") || isBroadcaster(sender);
+
+export const isVip = (sender: BadgeHolder): boolean => hasBadge(sender, "vip");
+
+export const isOg = (sender: BadgeHolder): boolean => hasBadge(sender, "og");
+
+export const isFounder = (sender: BadgeHolder): boolean =>
+  hasBadge(sender, "founder");
+
+/**
+ * Check for an active subscription; founders are subscribers too
+ */
+export const isSubscriber = (sender: BadgeHolder): boolean =>
+  hasBadge(sender, "subscriber") || isFounder(sender);
+
+export const isVerified = (sender: BadgeHolder): boolean =>
+  hasBadge(sender, "verified");
+
+/**
+ * Months the sender has been subscribed, 0 when not subscribed
+ */
+export const subscriberMonths = (sender: BadgeHolder): number =>
+  getBadge(sender, "subscriber")?.count ?? 0;
+
+/**
+ * Subscriptions the sender has gifted, 0 when none
+ */
+export const giftedSubscriptions = (sender: BadgeHolder): number =>
+  getBadge(sender, "sub_gifter")?.count ?? 0;
@@ -0,0 +1,14 @@
+import type { KickError } from "../types/client";
+
+/**
+ * Build a KickError that is also a real Error, so it can be thrown or used
+ * as a rejection reason and still carry its type, code and context
+ * @param details Error type, message and optional cause, code and context
+ * @returns Error with the KickError fields set on it
+ */
+export const createKickError = (details: KickError): KickError & Error =>
+  Object.assign(
+    new Error(details.message, { cause: details.originalError }),
+    { name: "KickError" },
+    details,
+  );
@@ -0,0 +1,32 @@
+import type { Logger } from "../types/client";
+
+// Default no-op logger for production
+export const createDefaultLogger = (): Logger => ({
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+});
+
+// Console logger for debugging
+export const createConsoleLogger = (): Logger => ({
+  debug: (message: string, ...args: unknown[]) =>
+    console.debug(`[KickJS DEBUG] ${message}`, ...args),
+  info: (message: string, ...args: unknown[]) =>
+    console.info(`[KickJS INFO] ${message}`, ...args),
+  warn: (message: string, ...args: unknown[]) =>
+    console.warn(`[KickJS WARN] ${message}`, ...args),
+  error: (message: string, error?: unknown) =>
+    console.error(`[KickJS ERROR] ${message}`, error),
+});
+
+// Resolve logger from options
+export const resolveLogger = (loggerOption?: Logger | boolean): Logger => {
+  if (loggerOption === true) {
+    return createConsoleLogger();
+  } else if (loggerOption === false || loggerOption === undefined) {
+    return createDefaultLogger();
+  } else {
+    return loggerOption;
+  }
+};
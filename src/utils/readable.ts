@@ -0,0 +1,15 @@
+import { Readable } from "stream";
+
+/**
+ * Adapt an event stream to an object-mode Readable, so it can be piped into
+ * existing Node pipelines. Destroying the Readable ends the source stream.
+ * @param source Iterable from client.events() or client.stream()
+ * @param highWaterMark Objects the Readable buffers ahead of its consumer
+ * @returns Object-mode Readable
+ */
+export const toReadable = <T>(
+  source: AsyncIterable<T>,
+  highWaterMark = 16,
+): Readable => {
+  return Readable.from(source, { objectMode: true, highWaterMark });
+};
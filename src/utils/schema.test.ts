@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+  union,
+  unknown,
+  validate,
+} from "./schema";
+
+describe("validate", () => {
+  it("checks primitives", () => {
+    expect(validate(string(), "a")).toEqual([]);
+    expect(validate(number(), 1)).toEqual([]);
+    expect(validate(boolean(), false)).toEqual([]);
+    expect(validate(string(), 1)).toEqual([
+      "payload: expected string, got number",
+    ]);
+  });
+
+  it("rejects NaN as a number", () => {
+    expect(validate(number(), NaN)).toEqual([
+      "payload: expected number, got NaN",
+    ]);
+  });
+
+  it("accepts anything for unknown()", () => {
+    expect(validate(unknown(), undefined)).toEqual([]);
+    expect(validate(unknown(), { a: 1 })).toEqual([]);
+  });
+
+  it("reports every mismatch with its path", () => {
+    const schema = object({
+      id: number(),
+      sender: object({ username: string(), badges: array(string()) }),
+    });
+
+    expect(
+      validate(schema, { id: "1", sender: { badges: ["a", 2, null] } }),
+    ).toEqual([
+      "id: expected number, got string",
+      "sender.username: missing, expected string",
+      "sender.badges[1]: expected string, got number",
+      "sender.badges[2]: expected string, got null",
+    ]);
+  });
+
+  it("allows extra fields on objects", () => {
+    expect(validate(object({ id: number() }), { id: 1, extra: true })).toEqual(
+      [],
+    );
+  });
+
+  it("tells arrays and null apart from objects", () => {
+    const schema = object({ id: number() });
+    expect(validate(schema, [])).toEqual([
+      "payload: expected object, got array",
+    ]);
+    expect(validate(schema, null)).toEqual([
+      "payload: expected object, got null",
+    ]);
+  });
+
+  it("lets optional fields be missing but not mistyped", () => {
+    const schema = object({ count: optional(number()) });
+    expect(validate(schema, {})).toEqual([]);
+    expect(validate(schema, { count: "3" })).toEqual([
+      "count: expected number, got string",
+    ]);
+  });
+
+  it("lets nullable fields be null but not missing", () => {
+    const schema = object({ source: nullable(string()) });
+    expect(validate(schema, { source: null })).toEqual([]);
+    expect(validate(schema, {})).toEqual([
+      "source: missing, expected string | null",
+    ]);
+  });
+
+  it("accepts a value matching any member of a union", () => {
+    const schema = union(number(), string());
+    expect(validate(schema, 1)).toEqual([]);
+    expect(validate(schema, "1")).toEqual([]);
+    expect(validate(schema, true)).toEqual([
+      "payload: expected number | string, got boolean",
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * A minimal runtime schema. `check` appends a description of every mismatch
+ * found under `path` to `issues`.
+ */
+export interface Schema {
+  /** Type description used in mismatch messages */
+  expected: string;
+  check: (value: unknown, path: string, issues: string[]) => void;
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (Number.isNaN(value)) return "NaN";
+  return typeof value;
+};
+
+const mismatch = (path: string, expected: string, value: unknown) =>
+  `${path || "payload"}: expected ${expected}, got ${describeValue(value)}`;
+
+const primitive = (type: "string" | "number" | "boolean"): Schema => ({
+  expected: type,
+  check: (value, path, issues) => {
+    if (typeof value !== type || (type === "number" && Number.isNaN(value))) {
+      issues.push(mismatch(path, type, value));
+    }
+  },
+});
+
+export const string = (): Schema => primitive("string");
+export const number = (): Schema => primitive("number");
+export const boolean = (): Schema => primitive("boolean");
+
+/** Accept anything, for payloads whose shape isn't known yet */
+export const unknown = (): Schema => ({
+  expected: "unknown",
+  check: () => {},
+});
+
+export const nullable = (schema: Schema): Schema => ({
+  expected: `${schema.expected} | null`,
+  check: (value, path, issues) => {
+    if (value !== null) {
+      schema.check(value, path, issues);
+    }
+  },
+});
+
+/** Allow the field to be missing; only meaningful inside object() */
+export const optional = (schema: Schema): Schema & { optional: true } => ({
+  expected: `${schema.expected} | undefined`,
+  optional: true,
+  check: (value, path, issues) => {
+    if (value !== undefined) {
+      schema.check(value, path, issues);
+    }
+  },
+});
+
+export const array = (items: Schema): Schema => ({
+  expected: `${items.expected}[]`,
+  check: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(mismatch(path, "array", value));
+      return;
+    }
+    value.forEach((item, index) =>
+      items.check(item, `${path}[${index}]`, issues),
+    );
+  },
+});
+
+/**
+ * Match an object with at least these fields; extra fields are allowed so
+ * additions on Kick's side don't break validation
+ */
+export const object = (fields: Record<string, Schema>): Schema => ({
+  expected: "object",
+  check: (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push(mismatch(path, "object", value));
+      return;
+    }
+
+    for (const [key, schema] of Object.entries(fields)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const fieldValue = (value as Record<string, unknown>)[key];
+      if (fieldValue === undefined && !("optional" in schema)) {
+        issues.push(`${fieldPath}: missing, expected ${schema.expected}`);
+        continue;
+      }
+      schema.check(fieldValue, fieldPath, issues);
+    }
+  },
+});
+
+/** Match any of the given schemas */
+export const union = (...schemas: Schema[]): Schema => {
+  const expected = schemas.map((schema) => schema.expected).join(" | ");
+  return {
+    expected,
+    check: (value, path, issues) => {
+      const matches = schemas.some((schema) => {
+        const attempt: string[] = [];
+        schema.check(value, path, attempt);
+        return attempt.length === 0;
+      });
+      if (!matches) {
+        issues.push(mismatch(path, expected, value));
+      }
+    },
+  };
+};
+
+/**
+ * Check a value against a schema
+ * @returns Every mismatch found, empty when the value is valid
+ */
+export const validate = (schema: Schema, value: unknown): string[] => {
+  const issues: string[] = [];
+  schema.check(value, "", issues);
+  return issues;
+};
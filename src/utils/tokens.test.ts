@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  renderHtml,
+  renderMarkdown,
+  renderPlainText,
+  tokenize,
+} from "./tokens";
+
+describe("tokenize", () => {
+  it("splits emotes, mentions, URLs and emoji out of text", () => {
+    expect(
+      tokenize("hi @xqc [emote:37226:KEKW] see https://kick.com/xqc 🔥"),
+    ).toEqual([
+      { type: "text", text: "hi " },
+      { type: "mention", username: "xqc", text: "@xqc" },
+      { type: "text", text: " " },
+      { type: "emote", id: "37226", name: "KEKW", text: "[emote:37226:KEKW]" },
+      { type: "text", text: " see " },
+      {
+        type: "url",
+        url: "https://kick.com/xqc",
+        text: "https://kick.com/xqc",
+      },
+      { type: "text", text: " " },
+      { type: "emoji", text: "🔥" },
+    ]);
+  });
+
+  it("gives back the content when the token text is joined", () => {
+    const content = "@a@b email@example.com [emote:1:x]! (https://a.b/c).";
+    expect(
+      tokenize(content)
+        .map((token) => token.text)
+        .join(""),
+    ).toBe(content);
+  });
+
+  it("leaves trailing punctuation out of URLs", () => {
+    expect(tokenize("go to https://kick.com/xqc.")).toEqual([
+      { type: "text", text: "go to " },
+      {
+        type: "url",
+        url: "https://kick.com/xqc",
+        text: "https://kick.com/xqc",
+      },
+      { type: "text", text: "." },
+    ]);
+  });
+
+  it("ignores @ inside words", () => {
+    expect(tokenize("mail me@example.com")).toEqual([
+      { type: "text", text: "mail me@example.com" },
+    ]);
+  });
+
+  it("keeps ZWJ sequences and skin tones in one emoji token", () => {
+    expect(tokenize("👩‍💻👍🏽")).toEqual([
+      { type: "emoji", text: "👩‍💻" },
+      { type: "emoji", text: "👍🏽" },
+    ]);
+  });
+
+  it("returns no tokens for empty content", () => {
+    expect(tokenize("")).toEqual([]);
+  });
+});
+
+describe("renderPlainText", () => {
+  it("replaces emotes with their names", () => {
+    expect(renderPlainText(tokenize("[emote:37226:KEKW] @xqc"))).toBe(
+      "KEKW @xqc",
+    );
+  });
+});
+
+describe("renderHtml", () => {
+  it("renders emotes, mentions and links", () => {
+    expect(renderHtml(tokenize("[emote:1:KEKW] @xqc https://kick.com"))).toBe(
+      '<img class="kick-emote" src="https://files.kick.com/emotes/1/fullsize" alt="KEKW" title="KEKW"> ' +
+        '<span class="kick-mention">@xqc</span> ' +
+        '<a href="https://kick.com" target="_blank" rel="noopener noreferrer">https://kick.com</a>',
+    );
+  });
+
+  it("escapes text so content can't inject markup", () => {
+    expect(renderHtml(tokenize(`<script>alert("x")</script> & 'y'`))).toBe(
+      "&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;y&#39;",
+    );
+  });
+
+  it("escapes characters in URLs", () => {
+    expect(renderHtml(tokenize("https://a.b/?q=1&r='2'x"))).toContain(
+      'href="https://a.b/?q=1&amp;r=&#39;2&#39;x"',
+    );
+  });
+
+  it("uses a custom emote URL", () => {
+    expect(
+      renderHtml(tokenize("[emote:5:wave]"), {
+        emoteUrl: (id) => `/emotes/${id}.png`,
+      }),
+    ).toContain('src="/emotes/5.png"');
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("renders emotes as images, mentions in bold and URLs as autolinks", () => {
+    expect(
+      renderMarkdown(tokenize("[emote:1:KEKW] @xqc https://kick.com")),
+    ).toBe(
+      "![KEKW](https://files.kick.com/emotes/1/fullsize) **@xqc** <https://kick.com>",
+    );
+  });
+
+  it("escapes Markdown syntax in text", () => {
+    expect(renderMarkdown(tokenize("*bold* _it_ [x](y)"))).toBe(
+      "\\*bold\\* \\_it\\_ \\[x\\]\\(y\\)",
+    );
+  });
+});
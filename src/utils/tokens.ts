@@ -0,0 +1,134 @@
+import type {
+  HtmlRenderOptions,
+  MarkdownRenderOptions,
+  MessageToken,
+} from "../types/tokens";
+
+const defaultEmoteUrl = (id: string) =>
+  `https://files.kick.com/emotes/${id}/fullsize`;
+
+// Alternatives are tried in order: emote tags, URLs, @mentions, emoji
+const TOKEN_PATTERN = new RegExp(
+  [
+    String.raw`(?<emote>\[emote:(?<emoteId>\d+):(?<emoteName>[^\]\s]+)\])`,
+    String.raw`(?<url>https?:\/\/[^\s<>"]+[^\s<>".,;:!?)\]'])`,
+    String.raw`(?<![\w@])(?<mention>@(?<username>\w{1,25}))`,
+    String.raw`(?<emoji>(?:\p{Extended_Pictographic}|\p{Regional_Indicator}{2})(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic}\uFE0F?)*)`,
+  ].join("|"),
+  "gu",
+);
+
+/**
+ * Split chat message content into text, emote, mention, URL and emoji tokens
+ * @param content Raw message content as sent by Kick
+ * @returns Tokens in order; concatenating their text gives back the content
+ */
+export const tokenize = (content: string): MessageToken[] => {
+  const tokens: MessageToken[] = [];
+  let lastIndex = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const previous = tokens[tokens.length - 1];
+    if (previous?.type === "text") {
+      previous.text += text;
+    } else {
+      tokens.push({ type: "text", text });
+    }
+  };
+
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const groups = match.groups ?? {};
+    pushText(content.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    if (groups.emote) {
+      tokens.push({
+        type: "emote",
+        id: groups.emoteId!,
+        name: groups.emoteName!,
+        text: groups.emote,
+      });
+    } else if (groups.url) {
+      tokens.push({ type: "url", url: groups.url, text: groups.url });
+    } else if (groups.mention) {
+      tokens.push({
+        type: "mention",
+        username: groups.username!,
+        text: groups.mention,
+      });
+    } else if (groups.emoji) {
+      tokens.push({ type: "emoji", text: groups.emoji });
+    }
+  }
+
+  pushText(content.slice(lastIndex));
+  return tokens;
+};
+
+/**
+ * Render tokens as plain text, replacing emotes with their names
+ */
+export const renderPlainText = (tokens: MessageToken[]): string =>
+  tokens
+    .map((token) => (token.type === "emote" ? token.name : token.text))
+    .join("");
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Render tokens as HTML with emote images, mention spans and links
+ */
+export const renderHtml = (
+  tokens: MessageToken[],
+  { emoteUrl = defaultEmoteUrl }: HtmlRenderOptions = {},
+): string =>
+  tokens
+    .map((token) => {
+      switch (token.type) {
+        case "emote": {
+          const name = escapeHtml(token.name);
+          return `<img class="kick-emote" src="${escapeHtml(emoteUrl(token.id))}" alt="${name}" title="${name}">`;
+        }
+        case "mention":
+          return `<span class="kick-mention">${escapeHtml(token.text)}</span>`;
+        case "url": {
+          const url = escapeHtml(token.url);
+          return `<a href="${url}" target="_blank" rel="noopener noreferrer">${url}</a>`;
+        }
+        default:
+          return escapeHtml(token.text);
+      }
+    })
+    .join("");
+
+const escapeMarkdown = (text: string): string =>
+  text.replace(/([\\`*_{}[\]()#+\-.!|~<>])/g, "\\$1");
+
+/**
+ * Render tokens as Markdown with emote images, bold mentions and links
+ */
+export const renderMarkdown = (
+  tokens: MessageToken[],
+  { emoteUrl = defaultEmoteUrl }: MarkdownRenderOptions = {},
+): string =>
+  tokens
+    .map((token) => {
+      switch (token.type) {
+        case "emote":
+          return `![${escapeMarkdown(token.name)}](${emoteUrl(token.id)})`;
+        case "mention":
+          return `**${escapeMarkdown(token.text)}**`;
+        case "url":
+          return `<${token.url}>`;
+        default:
+          return escapeMarkdown(token.text);
+      }
+    })
+    .join("");
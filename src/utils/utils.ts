@@ -1 +1,4 @@
 export const parseJSON = <T>(json: string): T => JSON.parse(json) as T;
+
+export const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
@@ -1,7 +1,11 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entryPoints: ["src/index.ts"],
+  entryPoints: {
+    index: "src/index.ts",
+    browser: "src/browser.ts",
+    testing: "src/testing/index.ts",
+  },
   format: ["cjs", "esm"],
   dts: true,
   outDir: "dist",